@@ -0,0 +1,110 @@
+export type TransportKind = "stdio" | "http"
+
+export interface CliOptions {
+  transport: TransportKind
+  port?: number
+  host: string
+  authToken?: string
+  dynamicTools: boolean
+  watch: boolean
+}
+
+const DEFAULT_HTTP_HOST = "127.0.0.1"
+
+const VALUE_OPTIONS = ["transport", "port", "host", "auth-token"]
+const BOOLEAN_OPTIONS = ["dynamic-tools", "watch"]
+
+// A boolean flag given as `--flag=value` must say true/false/1/0; the flag
+// wins over the environment variable, so `--watch=false` turns the mode off
+function parseBooleanOption(
+  values: Map<string, string>,
+  key: string,
+  envValue: string | undefined
+): boolean {
+  const raw = values.get(key)
+  if (raw === undefined) return ["1", "true"].includes(envValue ?? "")
+  if (["1", "true"].includes(raw)) return true
+  if (["0", "false"].includes(raw)) return false
+  throw new Error(`Invalid --${key} '${raw}'. Expected true, false, 1 or 0.`)
+}
+
+/**
+ * Parse command-line flags for the server binary.
+ * Supports both `--flag value` and `--flag=value` forms.
+ *
+ * --transport stdio|http  Transport to serve MCP over (default: stdio)
+ * --port <n>              Port for the HTTP transport (required with --transport http)
+ * --host <host>           Interface to bind the HTTP transport to (default: 127.0.0.1)
+ * --auth-token <token>    Bearer token required by the HTTP transport
+ *                         (falls back to NEXT_DEVTOOLS_MCP_AUTH_TOKEN)
+ * --dynamic-tools         Register each upstream Next.js tool as its own MCP tool
+ *                         (or NEXT_DEVTOOLS_DYNAMIC_TOOLS=1)
+ * --watch                 Keep re-running discovery in the background and notify
+ *                         clients of changes (or NEXT_DEVTOOLS_WATCH=1)
+ *
+ * Boolean flags also take an explicit value: `--watch=false`, `--dynamic-tools=1`.
+ *
+ * Other arguments are reported through `warn` and ignored: MCP client configs
+ * written for older releases, which ignored argv, must keep starting.
+ */
+export function parseCliOptions(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  warn: (message: string) => void = console.error
+): CliOptions {
+  const values = new Map<string, string>()
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const eqIndex = arg.indexOf("=")
+    const key = arg.slice(2, eqIndex === -1 ? undefined : eqIndex)
+    if (!arg.startsWith("--") || (!VALUE_OPTIONS.includes(key) && !BOOLEAN_OPTIONS.includes(key))) {
+      warn(`Ignoring unknown argument: ${arg}`)
+      continue
+    }
+
+    if (eqIndex !== -1) {
+      values.set(key, arg.slice(eqIndex + 1))
+      continue
+    }
+
+    if (BOOLEAN_OPTIONS.includes(key)) {
+      values.set(key, "true")
+      continue
+    }
+
+    const next = argv[i + 1]
+    if (next === undefined || next.startsWith("--")) {
+      throw new Error(`Missing value for ${arg}`)
+    }
+    values.set(key, next)
+    i++
+  }
+
+  const transport = values.get("transport") ?? "stdio"
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Invalid --transport '${transport}'. Expected 'stdio' or 'http'.`)
+  }
+
+  let port: number | undefined
+  const rawPort = values.get("port")
+  if (rawPort !== undefined) {
+    port = Number(rawPort)
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid --port '${rawPort}'. Expected an integer between 0 and 65535.`)
+    }
+  }
+
+  if (transport === "http" && port === undefined) {
+    throw new Error("--port is required when using --transport http")
+  }
+
+  return {
+    transport,
+    port,
+    host: values.get("host") ?? DEFAULT_HTTP_HOST,
+    authToken: values.get("auth-token") ?? env.NEXT_DEVTOOLS_MCP_AUTH_TOKEN,
+    dynamicTools: parseBooleanOption(values, "dynamic-tools", env.NEXT_DEVTOOLS_DYNAMIC_TOOLS),
+    watch: parseBooleanOption(values, "watch", env.NEXT_DEVTOOLS_WATCH),
+  }
+}
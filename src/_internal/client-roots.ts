@@ -0,0 +1,28 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js"
+import { fileURLToPath } from "node:url"
+
+// Clients that support roots tell the server which directories the user is
+// working in; tools use them to pick the dev server of the right project.
+
+const ROOTS_TIMEOUT_MS = 2000
+
+/**
+ * Local paths of the client's roots. Empty when the client doesn't support
+ * roots, doesn't answer in time, or only lists non-file URIs.
+ */
+export async function listClientRootPaths(
+  server: Pick<Server, "getClientCapabilities" | "listRoots">,
+  signal?: AbortSignal
+): Promise<string[]> {
+  if (!server.getClientCapabilities()?.roots) return []
+
+  try {
+    const { roots } = await server.listRoots(undefined, { timeout: ROOTS_TIMEOUT_MS, signal })
+    return roots
+      .filter((root) => root.uri.startsWith("file://"))
+      .map((root) => fileURLToPath(root.uri))
+  } catch {
+    // Roots are a hint; without them selection falls back to the working directory
+    return []
+  }
+}
@@ -0,0 +1,397 @@
+import fs from "node:fs"
+import path from "node:path"
+import { z } from "zod"
+import { DEFAULT_DOCKER_SOCKET, socketPathFromDockerHost } from "./docker-discovery.js"
+import type { RetryPolicy } from "./retry.js"
+
+// Project-level settings for the MCP server. They are read from
+// next-devtools.config.json, or the `nextDevtools` key of package.json, in the
+// nearest directory at or above the working directory. Environment variables
+// override the file, so one client can still tweak a shared setup:
+//
+//   NEXT_DEVTOOLS_PORTS="3000-3010,4000,8080"        discovery.ports
+//   NEXT_DEVTOOLS_HOSTS="localhost,192.168.1.20"     discovery.hosts (NEXT_DEVTOOLS_HOST also works)
+//   NEXT_DEVTOOLS_PROBE_CONCURRENCY=16               discovery.probeConcurrency
+//   NEXT_DEVTOOLS_DOCKER=1                           discovery.docker: true
+//   NEXT_DEVTOOLS_PROBE_TIMEOUT_MS=500               timeouts.probeMs
+//   NEXT_DEVTOOLS_CALL_TIMEOUT_MS=60000              timeouts.callMs
+//   NEXT_DEVTOOLS_MAX_RESULT_TOKENS=10000            results.maxTokens
+//   NEXT_DEVTOOLS_MAX_RETRIES=3                      retry.maxRetries (0 disables retrying)
+//   NEXT_DEVTOOLS_WATCH_INTERVAL_MS=5000             watch.intervalMs
+//   NODE_TLS_REJECT_UNAUTHORIZED=0                   tls.allowSelfSigned: true
+//   NEXT_TELEMETRY_DISABLED=1                        telemetry.enabled: false
+//
+//   {
+//     "discovery": { "ports": [3000, "4000-4010"], "hosts": ["localhost"], "probeConcurrency": 16 },
+//     "timeouts": { "probeMs": 500, "callMs": 60000 },
+//     "results": { "maxTokens": 10000 },
+//     "retry": { "maxRetries": 3, "baseDelayMs": 200 },
+//     "watch": { "intervalMs": 5000 },
+//     "tls": { "allowSelfSigned": true },
+//     "tools": { "disabled": ["browser_eval"] },
+//     "telemetry": { "enabled": false }
+//   }
+
+export interface DiscoveryConfig {
+  // Hosts to probe; the first one is also where locally discovered processes live
+  hosts: string[]
+  ports: number[]
+  // Maximum number of ports probed at the same time
+  probeConcurrency: number
+  // Also probe ports published by local Docker containers; null when disabled
+  docker: { socketPath: string } | null
+}
+
+export interface DevtoolsConfig {
+  discovery: DiscoveryConfig
+  timeouts: {
+    // How long a discovery probe waits for /_next/mcp to answer
+    probeMs: number
+    // Default timeout for calls to a dev server's runtime tools
+    callMs: number
+  }
+  results: {
+    // Budget for a runtime tool result; larger results are truncated and paged
+    maxTokens: number
+  }
+  // Backoff for dev servers that are restarting or mid-HMR
+  retry: RetryPolicy
+  watch: {
+    // How often discovery re-runs while servers or dynamic tools are watched
+    intervalMs: number
+  }
+  tls: {
+    // Accept self-signed certificates from `next dev --experimental-https`
+    allowSelfSigned: boolean
+  }
+  tools: {
+    // When set, only these tools are exposed
+    enabled?: string[]
+    disabled: string[]
+  }
+  telemetry: {
+    enabled: boolean
+  }
+  // The file the settings came from, if any
+  source?: string
+}
+
+export const CONFIG_FILE_NAME = "next-devtools.config.json"
+const PACKAGE_JSON_KEY = "nextDevtools"
+
+const DEFAULT_HOSTS = ["localhost"]
+const DEFAULT_PORTS = "3000-3010"
+const DEFAULT_PROBE_CONCURRENCY = 16
+const DEFAULT_PROBE_TIMEOUT_MS = 500
+const DEFAULT_CALL_TIMEOUT_MS = 60_000
+const DEFAULT_MAX_RESULT_TOKENS = 10_000
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_RETRY_BASE_DELAY_MS = 200
+const DEFAULT_WATCH_INTERVAL_MS = 5000
+// Keeps a typo like "3000-30000" from turning discovery into a port scan
+const MAX_PORTS = 2048
+
+type PortSpec = string | number | Array<string | number>
+
+export class ConfigError extends Error {
+  constructor(message: string, readonly source?: string) {
+    super(message)
+    this.name = "ConfigError"
+  }
+}
+
+/**
+ * Parse a port list such as "3000-3010,4000" or [3000, "4000-4010"] into
+ * unique port numbers, in order.
+ */
+export function parsePortList(spec: PortSpec): number[] {
+  const parts = (Array.isArray(spec) ? spec : [spec]).flatMap((part) =>
+    String(part)
+      .split(",")
+      .map((p) => p.trim())
+      .filter(Boolean)
+  )
+
+  const ports = new Set<number>()
+  for (const part of parts) {
+    const match = part.match(/^(\d+)(?:\s*-\s*(\d+))?$/)
+    if (!match) {
+      throw new Error(`Invalid port '${part}'. Expected a port (3000) or a range (3000-3010).`)
+    }
+
+    const start = Number(match[1])
+    const end = match[2] === undefined ? start : Number(match[2])
+    if (start < 1 || end > 65535 || start > end) {
+      throw new Error(`Invalid port range '${part}'. Ports must be between 1 and 65535.`)
+    }
+    if (end - start + 1 + ports.size > MAX_PORTS) {
+      throw new Error(`Too many ports to probe (more than ${MAX_PORTS}). Narrow '${part}'.`)
+    }
+
+    for (let port = start; port <= end; port++) ports.add(port)
+  }
+
+  if (ports.size === 0) throw new Error("Port list is empty")
+  return Array.from(ports)
+}
+
+function parseHostList(spec: string | string[]): string[] {
+  const hosts = (Array.isArray(spec) ? spec : spec.split(","))
+    .map((host) => host.trim())
+    .filter(Boolean)
+  if (hosts.length === 0) throw new Error("Host list is empty")
+  return Array.from(new Set(hosts))
+}
+
+// Port lists are checked with parsePortList so the file and the env var
+// accept exactly the same syntax
+const portsSchema = z
+  .union([z.string(), z.number().int(), z.array(z.union([z.string(), z.number().int()]))])
+  .superRefine((spec, ctx) => {
+    try {
+      parsePortList(spec)
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message })
+    }
+  })
+
+const positiveInt = z.number().int().positive()
+
+const fileSchema = z
+  .object({
+    $schema: z.string().optional(),
+    discovery: z
+      .object({
+        hosts: z.array(z.string().min(1)).nonempty().optional(),
+        ports: portsSchema.optional(),
+        probeConcurrency: positiveInt.optional(),
+        docker: z
+          .union([z.boolean(), z.object({ socketPath: z.string().min(1).optional() }).strict()])
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    timeouts: z
+      .object({ probeMs: positiveInt.optional(), callMs: positiveInt.optional() })
+      .strict()
+      .optional(),
+    results: z.object({ maxTokens: positiveInt.optional() }).strict().optional(),
+    retry: z
+      .object({
+        maxRetries: z.number().int().min(0).optional(),
+        baseDelayMs: positiveInt.optional(),
+      })
+      .strict()
+      .optional(),
+    watch: z.object({ intervalMs: positiveInt.optional() }).strict().optional(),
+    tls: z.object({ allowSelfSigned: z.boolean().optional() }).strict().optional(),
+    tools: z
+      .object({ enabled: z.array(z.string()).optional(), disabled: z.array(z.string()).optional() })
+      .strict()
+      .optional(),
+    telemetry: z.object({ enabled: z.boolean().optional() }).strict().optional(),
+  })
+  .strict()
+
+type ConfigFile = z.infer<typeof fileSchema>
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `  - ${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`)
+    .join("\n")
+}
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"))
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot read ${file}: ${error instanceof Error ? error.message : error}`,
+      file
+    )
+  }
+}
+
+/**
+ * Walk up from `cwd` to the nearest next-devtools.config.json, or package.json
+ * with a `nextDevtools` key. A config file wins over package.json in the same
+ * directory.
+ */
+export function findConfigFile(cwd: string): { source: string; raw: unknown } | null {
+  let dir = path.resolve(cwd)
+  while (true) {
+    const configFile = path.join(dir, CONFIG_FILE_NAME)
+    if (fs.existsSync(configFile)) {
+      return { source: configFile, raw: readJson(configFile) }
+    }
+
+    const packageJson = path.join(dir, "package.json")
+    if (fs.existsSync(packageJson)) {
+      let pkg: Record<string, unknown> | null = null
+      try {
+        pkg = readJson(packageJson) as Record<string, unknown> | null
+      } catch {
+        // A broken package.json is some other tool's problem, not a config error
+      }
+      if (pkg && typeof pkg === "object" && PACKAGE_JSON_KEY in pkg) {
+        return { source: `${packageJson} (${PACKAGE_JSON_KEY})`, raw: pkg[PACKAGE_JSON_KEY] }
+      }
+    }
+
+    const parent = path.dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+function parseConfigFile(found: { source: string; raw: unknown }): ConfigFile {
+  const result = fileSchema.safeParse(found.raw)
+  if (!result.success) {
+    throw new ConfigError(
+      `Invalid next-devtools config in ${found.source}:\n${formatIssues(result.error)}`,
+      found.source
+    )
+  }
+  return result.data
+}
+
+function envInt(env: NodeJS.ProcessEnv, name: string, min = 1): number | undefined {
+  const value = env[name]
+  if (value === undefined || value === "") return undefined
+
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < min) {
+    const expected = min === 0 ? "a non-negative integer" : "a positive integer"
+    throw new ConfigError(`Invalid ${name} '${value}'. Expected ${expected}.`)
+  }
+  return n
+}
+
+function fromEnv<T>(name: string, parse: () => T): T {
+  try {
+    return parse()
+  } catch (error) {
+    throw new ConfigError(`Invalid ${name}: ${(error as Error).message}`)
+  }
+}
+
+function envBoolean(env: NodeJS.ProcessEnv, name: string): boolean | undefined {
+  const value = env[name]
+  if (value === undefined || value === "") return undefined
+  if (["1", "true"].includes(value)) return true
+  if (["0", "false"].includes(value)) return false
+  throw new ConfigError(`Invalid ${name} '${value}'. Expected 1, 0, true or false.`)
+}
+
+// Socket from the file, else DOCKER_HOST, else the platform default
+function resolveDocker(
+  env: NodeJS.ProcessEnv,
+  fileDocker: NonNullable<ConfigFile["discovery"]>["docker"]
+): DiscoveryConfig["docker"] {
+  const enabled = envBoolean(env, "NEXT_DEVTOOLS_DOCKER") ?? Boolean(fileDocker)
+  if (!enabled) return null
+
+  const fromFile = typeof fileDocker === "object" ? fileDocker.socketPath : undefined
+  if (fromFile) return { socketPath: fromFile }
+
+  if (env.DOCKER_HOST) {
+    const socketPath = socketPathFromDockerHost(env.DOCKER_HOST)
+    if (!socketPath) {
+      throw new ConfigError(
+        `Docker discovery needs a local socket, but DOCKER_HOST is '${env.DOCKER_HOST}'. ` +
+          "Set discovery.docker.socketPath in the config file."
+      )
+    }
+    return { socketPath }
+  }
+
+  return { socketPath: DEFAULT_DOCKER_SOCKET }
+}
+
+export function loadConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): DevtoolsConfig {
+  const found = findConfigFile(cwd)
+  const file = found ? parseConfigFile(found) : {}
+
+  const hostsEnv = env.NEXT_DEVTOOLS_HOSTS ? "NEXT_DEVTOOLS_HOSTS" : "NEXT_DEVTOOLS_HOST"
+  const hostSpec = env[hostsEnv]
+  const portSpec = env.NEXT_DEVTOOLS_PORTS
+
+  return {
+    discovery: {
+      hosts: hostSpec
+        ? fromEnv(hostsEnv, () => parseHostList(hostSpec))
+        : parseHostList(file.discovery?.hosts ?? DEFAULT_HOSTS),
+      ports: portSpec
+        ? fromEnv("NEXT_DEVTOOLS_PORTS", () => parsePortList(portSpec))
+        : parsePortList(file.discovery?.ports ?? DEFAULT_PORTS),
+      probeConcurrency:
+        envInt(env, "NEXT_DEVTOOLS_PROBE_CONCURRENCY") ??
+        file.discovery?.probeConcurrency ??
+        DEFAULT_PROBE_CONCURRENCY,
+      docker: resolveDocker(env, file.discovery?.docker),
+    },
+    timeouts: {
+      probeMs:
+        envInt(env, "NEXT_DEVTOOLS_PROBE_TIMEOUT_MS") ??
+        file.timeouts?.probeMs ??
+        DEFAULT_PROBE_TIMEOUT_MS,
+      callMs:
+        envInt(env, "NEXT_DEVTOOLS_CALL_TIMEOUT_MS") ??
+        file.timeouts?.callMs ??
+        DEFAULT_CALL_TIMEOUT_MS,
+    },
+    results: {
+      maxTokens:
+        envInt(env, "NEXT_DEVTOOLS_MAX_RESULT_TOKENS") ??
+        file.results?.maxTokens ??
+        DEFAULT_MAX_RESULT_TOKENS,
+    },
+    retry: {
+      maxRetries:
+        envInt(env, "NEXT_DEVTOOLS_MAX_RETRIES", 0) ??
+        file.retry?.maxRetries ??
+        DEFAULT_MAX_RETRIES,
+      baseDelayMs: file.retry?.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+    },
+    watch: {
+      intervalMs:
+        envInt(env, "NEXT_DEVTOOLS_WATCH_INTERVAL_MS") ??
+        file.watch?.intervalMs ??
+        DEFAULT_WATCH_INTERVAL_MS,
+    },
+    tls: {
+      allowSelfSigned:
+        env.NODE_TLS_REJECT_UNAUTHORIZED === "0" || (file.tls?.allowSelfSigned ?? false),
+    },
+    tools: {
+      enabled: file.tools?.enabled,
+      disabled: file.tools?.disabled ?? [],
+    },
+    telemetry: {
+      enabled: env.NEXT_TELEMETRY_DISABLED !== "1" && (file.telemetry?.enabled ?? true),
+    },
+    source: found?.source,
+  }
+}
+
+let cached: DevtoolsConfig | undefined
+
+/** The config for this process, loaded on first use. */
+export function getConfig(): DevtoolsConfig {
+  cached ??= loadConfig()
+  return cached
+}
+
+export function getDiscoveryConfig(): DiscoveryConfig {
+  return getConfig().discovery
+}
+
+/** Whether a tool is exposed, per `tools.enabled` and `tools.disabled`. */
+export function isToolEnabled(name: string, config: DevtoolsConfig = getConfig()): boolean {
+  const { enabled, disabled } = config.tools
+  if (enabled && !enabled.includes(name)) return false
+  return !disabled.includes(name)
+}
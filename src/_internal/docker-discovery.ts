@@ -0,0 +1,117 @@
+import http from "node:http"
+
+// Optional discovery source for `next dev` running inside local Docker
+// containers (e.g. docker compose). Process discovery can't see those
+// processes and their published ports are often outside the probed range, so
+// this asks the Docker Engine API over its local socket which TCP ports each
+// running container publishes. The runtime manager then probes each one for
+// /_next/mcp.
+
+export interface DockerContainer {
+  id: string
+  // Container name without Docker's leading slash, e.g. "myapp-web-1"
+  name: string
+  image: string
+}
+
+export interface DockerEndpoint {
+  // Address the port is published on; null when published on every interface
+  host: string | null
+  port: number
+  container: DockerContainer
+}
+
+// The parts of GET /containers/json this module reads
+interface ContainerSummary {
+  Id: string
+  Names?: string[]
+  Image: string
+  Ports?: Array<{ IP?: string; PrivatePort: number; PublicPort?: number; Type: string }>
+}
+
+export const DEFAULT_DOCKER_SOCKET =
+  process.platform === "win32" ? "\\\\.\\pipe\\docker_engine" : "/var/run/docker.sock"
+
+const DOCKER_API_TIMEOUT_MS = 2000
+
+/**
+ * Socket path from a DOCKER_HOST value such as unix:///var/run/docker.sock or
+ * npipe:////./pipe/docker_engine. Returns null for TCP hosts, which are not
+ * supported.
+ */
+export function socketPathFromDockerHost(dockerHost: string): string | null {
+  if (dockerHost.startsWith("unix://")) return dockerHost.slice("unix://".length)
+  if (dockerHost.startsWith("npipe://")) {
+    return dockerHost.slice("npipe://".length).replace(/\//g, "\\")
+  }
+  return null
+}
+
+function dockerGet(socketPath: string, apiPath: string): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      {
+        socketPath,
+        path: apiPath,
+        method: "GET",
+        headers: { Host: "docker" },
+        timeout: DOCKER_API_TIMEOUT_MS,
+      },
+      (res) => {
+        let body = ""
+        res.setEncoding("utf8")
+        res.on("data", (chunk) => (body += chunk))
+        res.on("end", () => {
+          if (res.statusCode !== 200) {
+            reject(new Error(`Docker API ${apiPath} returned ${res.statusCode}: ${body.trim()}`))
+            return
+          }
+          try {
+            resolve(JSON.parse(body))
+          } catch (error) {
+            reject(error)
+          }
+        })
+      }
+    )
+    req.on("timeout", () => {
+      req.destroy(new Error(`Docker API did not answer within ${DOCKER_API_TIMEOUT_MS}ms`))
+    })
+    req.on("error", reject)
+    req.end()
+  })
+}
+
+/**
+ * Published TCP ports of every running container. A port published on both
+ * 0.0.0.0 and :: is listed once.
+ */
+export async function listDockerEndpoints(socketPath: string): Promise<DockerEndpoint[]> {
+  const containers = (await dockerGet(socketPath, "/containers/json")) as ContainerSummary[]
+  const endpoints: DockerEndpoint[] = []
+  const seen = new Set<string>()
+
+  for (const summary of containers) {
+    const container: DockerContainer = {
+      id: summary.Id.slice(0, 12),
+      name: (summary.Names?.[0] ?? summary.Id.slice(0, 12)).replace(/^\//, ""),
+      image: summary.Image,
+    }
+
+    for (const binding of summary.Ports ?? []) {
+      if (binding.Type !== "tcp" || !binding.PublicPort) continue
+
+      // Wildcard and IPv6 bindings are reached through the default host
+      const ip = binding.IP ?? ""
+      const host = ip === "" || ip === "0.0.0.0" || ip.includes(":") ? null : ip
+
+      const key = `${host ?? "*"}:${binding.PublicPort}`
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      endpoints.push({ host, port: binding.PublicPort, container })
+    }
+  }
+
+  return endpoints
+}
@@ -0,0 +1,145 @@
+import {
+  getAllAvailableServers,
+  listNextJsTools,
+  callNextJsTool,
+  type NextJsRequestOptions,
+} from "./nextjs-runtime-manager.js"
+import { getConfig } from "./config.js"
+import { log } from "../telemetry/logger.js"
+
+// Opt-in mode that registers every upstream Next.js runtime tool as its own MCP
+// tool (e.g. `nextjs_3000_get_errors`) with the tool's real inputSchema, so
+// models can call typed tools instead of routing through `nextjs_call`.
+
+export interface DynamicTool {
+  name: string
+  host: string
+  port: number
+  upstreamName: string
+  description?: string
+  inputSchema: Record<string, unknown>
+}
+
+type DynamicToolsListener = () => void
+
+// MCP tool names are limited to 128 characters of [A-Za-z0-9_.-]
+const MAX_TOOL_NAME_LENGTH = 128
+
+const listeners = new Set<DynamicToolsListener>()
+let dynamicTools: DynamicTool[] = []
+let signature = ""
+let lastRefresh = 0
+let inflight: Promise<boolean> | undefined
+let timer: ReturnType<typeof setInterval> | undefined
+
+export function dynamicToolName(port: number, upstreamName: string): string {
+  const sanitized = upstreamName.replace(/[^A-Za-z0-9_.-]/g, "_")
+  return `nextjs_${port}_${sanitized}`.slice(0, MAX_TOOL_NAME_LENGTH)
+}
+
+/**
+ * Re-discover servers and their tool lists.
+ * Resolves to true when the registered tool set changed. Concurrent callers
+ * share one refresh.
+ */
+export function refreshDynamicTools(): Promise<boolean> {
+  inflight ??= runRefresh().finally(() => {
+    inflight = undefined
+  })
+  return inflight
+}
+
+async function runRefresh(): Promise<boolean> {
+  const servers = await getAllAvailableServers()
+  const perServer = await Promise.all(
+    servers.map(async (server) => {
+      const tools = await listNextJsTools(server.port, server.host)
+      return tools.map<DynamicTool>((tool) => ({
+        name: dynamicToolName(server.port, tool.name),
+        host: server.host,
+        port: server.port,
+        upstreamName: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema ?? { type: "object", properties: {} },
+      }))
+    })
+  )
+
+  const next = perServer.flat().sort((a, b) => a.name.localeCompare(b.name))
+  const nextSignature = JSON.stringify(next)
+  lastRefresh = Date.now()
+
+  if (nextSignature === signature) return false
+
+  dynamicTools = next
+  signature = nextSignature
+  log("Dynamic tools changed", { tools: next.map((t) => t.name) })
+  return true
+}
+
+/**
+ * Current dynamic tools. Refreshes first if the cached list is older than the
+ * watch interval, so a client listing tools never sees a long-stale set.
+ */
+export async function getDynamicTools(): Promise<DynamicTool[]> {
+  if (Date.now() - lastRefresh > getConfig().watch.intervalMs) {
+    const changed = await refreshDynamicTools()
+    if (changed) notifyListeners()
+  }
+  return dynamicTools
+}
+
+export function findDynamicTool(name: string): DynamicTool | undefined {
+  return dynamicTools.find((tool) => tool.name === name)
+}
+
+export async function callDynamicTool(
+  tool: DynamicTool,
+  args: Record<string, unknown>,
+  options: NextJsRequestOptions = {}
+): Promise<unknown> {
+  return callNextJsTool(tool.port, tool.upstreamName, args, { ...options, host: tool.host })
+}
+
+function notifyListeners() {
+  for (const listener of listeners) {
+    listener()
+  }
+}
+
+/**
+ * Refresh now and notify listeners if the tool set changed. Used by the poll
+ * timer and by the discovery watcher when it sees servers come and go.
+ */
+export function refreshDynamicToolsAndNotify(): void {
+  refreshDynamicTools()
+    .then((changed) => {
+      if (changed) notifyListeners()
+    })
+    .catch((error) => {
+      log("Dynamic tools refresh failed", {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
+}
+
+/**
+ * Subscribe to changes of the dynamic tool set (servers starting/stopping or a
+ * server's tool list changing). Polls only while a listener is registered.
+ */
+export function onDynamicToolsChanged(listener: DynamicToolsListener): () => void {
+  listeners.add(listener)
+
+  if (!timer) {
+    timer = setInterval(refreshDynamicToolsAndNotify, getConfig().watch.intervalMs)
+    timer.unref()
+  }
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0 && timer) {
+      clearInterval(timer)
+      timer = undefined
+    }
+  }
+}
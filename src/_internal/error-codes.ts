@@ -0,0 +1,80 @@
+// Stable, machine-readable codes for every failure a tool reports. Messages
+// and hints are written for agents and may change between releases; clients
+// that need to tell failures apart should branch on the code instead of
+// matching on the text.
+
+export const ERROR_CODES = [
+  // No running dev server with MCP (or none for the given project)
+  "NO_SERVER_FOUND",
+  // Several dev servers could be meant; the caller has to pick one
+  "AMBIGUOUS_SERVER",
+  // Nothing answers on the port, even after retrying
+  "SERVER_UNREACHABLE",
+  // Something answers, but there is no /_next/mcp (production server, or MCP off)
+  "MCP_ENDPOINT_MISSING",
+  // The project's Next.js predates MCP, or its bundled docs
+  "NEXT_VERSION_TOO_OLD",
+  // No Next.js installation found in the project
+  "NEXT_NOT_FOUND",
+  // The dev server did not answer in time
+  "UPSTREAM_TIMEOUT",
+  // The dev server or the runtime tool reported an error
+  "UPSTREAM_TOOL_ERROR",
+  // Any other failure talking to the dev server
+  "UPSTREAM_ERROR",
+  // The runtime tool does not exist on the server
+  "UNKNOWN_TOOL",
+  // Arguments are missing or don't match the tool's input schema
+  "INVALID_ARGS",
+  // A result cursor is unknown or has expired
+  "CURSOR_EXPIRED",
+  // The client cancelled the call
+  "CANCELLED",
+  // Every call of a batch failed, for different reasons (see each result)
+  "BATCH_FAILED",
+  "INTERNAL_ERROR",
+] as const
+
+export type DevtoolsErrorCode = (typeof ERROR_CODES)[number]
+
+/**
+ * A failure with a code, a remediation hint and the data that triggered it.
+ * Thrown below the tools; tool handlers turn it into structured error output.
+ */
+export class DevtoolsError extends Error {
+  constructor(
+    readonly code: DevtoolsErrorCode,
+    message: string,
+    readonly hint?: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message)
+    this.name = "DevtoolsError"
+  }
+}
+
+/** The error fields of a tool's structured output. */
+export interface ErrorFields {
+  error: string
+  code: DevtoolsErrorCode
+  hint?: string
+  details?: Record<string, unknown>
+}
+
+/**
+ * Error fields for a caught error; errors without a code get `fallback`.
+ */
+export function errorFields(
+  error: unknown,
+  fallback: DevtoolsErrorCode = "INTERNAL_ERROR"
+): ErrorFields {
+  if (error instanceof DevtoolsError) {
+    return {
+      error: error.message,
+      code: error.code,
+      ...(error.hint && { hint: error.hint }),
+      ...(error.details && { details: error.details }),
+    }
+  }
+  return { error: error instanceof Error ? error.message : String(error), code: fallback }
+}
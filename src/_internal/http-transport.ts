@@ -0,0 +1,212 @@
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from "http"
+import { randomBytes, randomUUID, timingSafeEqual } from "crypto"
+import type { AddressInfo } from "net"
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js"
+import { log } from "../telemetry/logger.js"
+
+export const MCP_HTTP_PATH = "/mcp"
+
+// Clients that crash or disconnect without DELETE never close their session;
+// sessions idle this long (no request, no open stream) are closed.
+const DEFAULT_SESSION_IDLE_MS = 30 * 60_000
+const MAX_SWEEP_INTERVAL_MS = 60_000
+
+interface HttpSession {
+  server: Server
+  transport: StreamableHTTPServerTransport
+  // When the last request finished (ms since epoch)
+  lastActive: number
+  // Requests still being answered, including open SSE streams
+  openRequests: number
+}
+
+export interface HttpTransportOptions {
+  port: number
+  host: string
+  /** Bearer token clients must send. A random one is generated when omitted. */
+  authToken?: string
+  /** Factory for a fresh MCP server; each HTTP session gets its own instance. */
+  createServer: () => Server
+  /** Close sessions idle for this long. Defaults to 30 minutes. */
+  sessionIdleMs?: number
+}
+
+export interface HttpTransportHandle {
+  url: string
+  authToken: string
+  /** Number of currently open MCP sessions */
+  sessionCount(): number
+  close(): Promise<void>
+}
+
+function isAuthorized(header: string | undefined, expected: string): boolean {
+  if (!header) return false
+  const match = header.match(/^Bearer\s+(.+)$/i)
+  if (!match) return false
+
+  const provided = Buffer.from(match[1].trim())
+  const wanted = Buffer.from(expected)
+  return provided.length === wanted.length && timingSafeEqual(provided, wanted)
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }))
+}
+
+// Counts the request as activity for the session until its response closes
+function trackRequest(session: HttpSession, res: ServerResponse) {
+  session.openRequests++
+  res.once("close", () => {
+    session.openRequests--
+    session.lastActive = Date.now()
+  })
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  const text = Buffer.concat(chunks).toString("utf-8")
+  return text ? JSON.parse(text) : undefined
+}
+
+/**
+ * Serve MCP over Streamable HTTP.
+ * Every client session is bound to its own Server instance (and therefore its
+ * own protocol state), keyed by the Mcp-Session-Id header the transport assigns
+ * during initialize. All requests must carry `Authorization: Bearer <token>`.
+ */
+export async function startHttpTransport(
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const authToken = options.authToken || randomBytes(24).toString("hex")
+  const sessions = new Map<string, HttpSession>()
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS
+
+  const closeIdleSessions = () => {
+    const now = Date.now()
+    for (const [id, session] of sessions) {
+      if (session.openRequests > 0 || now - session.lastActive < sessionIdleMs) continue
+      sessions.delete(id)
+      log("HTTP session expired", { sessionId: id })
+      // Closing the server also ends its subscriptions (e.g. discovery polling)
+      session.server.close().catch(() => {})
+    }
+  }
+  const sweepTimer = setInterval(closeIdleSessions, Math.min(sessionIdleMs, MAX_SWEEP_INTERVAL_MS))
+  sweepTimer.unref()
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost")
+    if (pathname !== MCP_HTTP_PATH) {
+      res.writeHead(404).end()
+      return
+    }
+
+    if (!isAuthorized(req.headers.authorization, authToken)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="next-devtools-mcp"')
+      sendJsonRpcError(res, 401, -32001, "Unauthorized: missing or invalid bearer token")
+      return
+    }
+
+    const sessionId = req.headers["mcp-session-id"]
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId)
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, "Session not found")
+        return
+      }
+      trackRequest(session, res)
+      await session.transport.handleRequest(req, res)
+      return
+    }
+
+    // No session yet: the only acceptable request is an initialize POST.
+    if (req.method !== "POST") {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided")
+      return
+    }
+
+    let body: unknown
+    try {
+      body = await readJsonBody(req)
+    } catch {
+      sendJsonRpcError(res, 400, -32700, "Parse error: invalid JSON")
+      return
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided")
+      return
+    }
+
+    const server = options.createServer()
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, session)
+        log("HTTP session opened", { sessionId: id })
+      },
+    })
+    const session: HttpSession = { server, transport, lastActive: Date.now(), openRequests: 0 }
+
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        log("HTTP session closed", { sessionId: transport.sessionId })
+      }
+    }
+
+    await server.connect(transport)
+    trackRequest(session, res)
+    await transport.handleRequest(req, res, body)
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      log("HTTP request failed", { error: error instanceof Error ? error.message : String(error) })
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error")
+      } else {
+        res.end()
+      }
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject)
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject)
+      resolve()
+    })
+  })
+
+  const { port } = httpServer.address() as AddressInfo
+  const displayHost = options.host.includes(":") ? `[${options.host}]` : options.host
+
+  return {
+    url: `http://${displayHost}:${port}${MCP_HTTP_PATH}`,
+    authToken,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweepTimer)
+      const open = Array.from(sessions.values())
+      sessions.clear()
+      for (const session of open) {
+        try {
+          await session.server.close()
+        } catch {
+          // Ignore close errors during shutdown
+        }
+      }
+
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve())
+        httpServer.closeAllConnections()
+      })
+    },
+  }
+}
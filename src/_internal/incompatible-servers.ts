@@ -0,0 +1,89 @@
+import type { DevtoolsErrorCode } from "./error-codes.js"
+
+// Next.js servers that discovery found as processes but that do not serve
+// /_next/mcp. Instead of dropping them, nextjs_index reports why each one
+// can't be used and what to do about it.
+
+export type IncompatibleReason = "version-too-old" | "production-server" | "endpoint-missing"
+
+export interface IncompatibleNextJsServer {
+  host: string
+  port: number
+  pid: number
+  command: string
+  projectRoot?: string
+  // Next.js version of the project the process runs, when it can be read
+  nextVersion?: string
+  kind: IncompatibleReason
+  reason: string
+  upgrade: string
+}
+
+export interface ServerEvidence {
+  nextVersion: string | null
+  // From the process and its parent command lines
+  mode: "dev" | "production" | "unknown"
+  // HTTP status of POST /_next/mcp, or null when it did not answer
+  status: number | null
+}
+
+// First Next.js major with the built-in /_next/mcp endpoint
+export const MIN_MCP_NEXT_MAJOR = 16
+
+const UPGRADE_COMMAND = "npx @next/codemod@latest upgrade latest"
+
+/**
+ * Whether command lines show a dev server (`next dev`) or a production
+ * server (`next start`). The next-server process usually only shows its
+ * title, so the parent (the `next` CLI) is what gives it away.
+ */
+export function detectServerMode(commands: string[]): ServerEvidence["mode"] {
+  if (commands.some((command) => /\bnext\s+dev\b/.test(command))) return "dev"
+  if (commands.some((command) => /\bnext\s+start\b/.test(command))) return "production"
+  return "unknown"
+}
+
+export function diagnoseIncompatibleServer({
+  nextVersion,
+  mode,
+  status,
+}: ServerEvidence): Pick<IncompatibleNextJsServer, "kind" | "reason" | "upgrade"> {
+  const major = nextVersion ? parseInt(nextVersion, 10) : NaN
+
+  if (major < MIN_MCP_NEXT_MAJOR) {
+    const shortVersion = nextVersion!.split(".").slice(0, 2).join(".")
+    return {
+      kind: "version-too-old",
+      reason: `Next.js ${shortVersion} detected, MCP requires ${MIN_MCP_NEXT_MAJOR}`,
+      upgrade: `Upgrade to Next.js ${MIN_MCP_NEXT_MAJOR}+ with '${UPGRADE_COMMAND}', then restart the dev server.`,
+    }
+  }
+
+  if (mode === "production") {
+    return {
+      kind: "production-server",
+      reason: "Production server (next start); MCP is only served by next dev",
+      upgrade: "Run the app with 'next dev' (e.g. 'npm run dev') to use the runtime tools.",
+    }
+  }
+
+  return {
+    kind: "endpoint-missing",
+    reason: status === null ? "/_next/mcp did not respond" : `/_next/mcp returned ${status}`,
+    upgrade: nextVersion
+      ? `Update to the latest Next.js with '${UPGRADE_COMMAND}' and restart the dev server.`
+      : `Make sure the project uses Next.js ${MIN_MCP_NEXT_MAJOR}+ ('${UPGRADE_COMMAND}') and runs with 'next dev'.`,
+  }
+}
+
+/**
+ * The error code for servers that can't be used: NEXT_VERSION_TOO_OLD when
+ * upgrading fixes all of them, else MCP_ENDPOINT_MISSING.
+ */
+export function incompatibleErrorCode(
+  servers: Pick<IncompatibleNextJsServer, "kind">[]
+): DevtoolsErrorCode {
+  return servers.every((server) => server.kind === "version-too-old")
+    ? "NEXT_VERSION_TOO_OLD"
+    : "MCP_ENDPOINT_MISSING"
+}
@@ -0,0 +1,229 @@
+/**
+ * Parse the response to a JSON-RPC request POSTed to an MCP Streamable HTTP
+ * endpoint. Per the spec the server may answer with either:
+ *   - `application/json`: a single JSON-RPC message (or a batch array), or
+ *   - `text/event-stream`: an SSE stream carrying any number of server
+ *     notifications/requests before the response to our request.
+ */
+
+export type JsonRpcId = string | number
+
+export interface JsonRpcError {
+  code: number
+  message: string
+  data?: unknown
+}
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0"
+  id?: JsonRpcId | null
+  method?: string
+  params?: Record<string, unknown>
+  result?: Record<string, unknown>
+  error?: JsonRpcError
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0"
+  method: string
+  params?: Record<string, unknown>
+}
+
+export interface McpResponseOptions {
+  /** Called for every server notification received before the response */
+  onNotification?: (notification: JsonRpcNotification) => void
+}
+
+interface SseEvent {
+  event: string
+  data: string
+}
+
+function isResponseTo(message: JsonRpcMessage, requestId: JsonRpcId): boolean {
+  return message.id === requestId && (message.result !== undefined || message.error !== undefined)
+}
+
+function isNotification(message: JsonRpcMessage): boolean {
+  return typeof message.method === "string" && (message.id === undefined || message.id === null)
+}
+
+function parseMessages(payload: string): JsonRpcMessage[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(payload)
+  } catch {
+    throw new Error(`Invalid MCP response: malformed JSON: ${payload.slice(0, 200)}`)
+  }
+
+  const messages = Array.isArray(parsed) ? parsed : [parsed]
+  for (const message of messages) {
+    if (!message || typeof message !== "object" || (message as JsonRpcMessage).jsonrpc !== "2.0") {
+      throw new Error(`Invalid MCP response: not a JSON-RPC 2.0 message: ${payload.slice(0, 200)}`)
+    }
+  }
+  return messages as JsonRpcMessage[]
+}
+
+/**
+ * Scan a list of messages for the response, forwarding notifications.
+ * Returns the response if found.
+ */
+function consumeMessages(
+  messages: JsonRpcMessage[],
+  requestId: JsonRpcId,
+  options: McpResponseOptions
+): JsonRpcMessage | undefined {
+  let response: JsonRpcMessage | undefined
+  for (const message of messages) {
+    if (isNotification(message)) {
+      options.onNotification?.(message as JsonRpcNotification)
+    } else if (!response && isResponseTo(message, requestId)) {
+      response = message
+    }
+    // Anything else (server->client requests, responses to other ids) is ignored:
+    // this connection only exists to carry one request.
+  }
+  return response
+}
+
+/**
+ * Incremental SSE decoder following the WHATWG event-stream rules: fields are
+ * split on the first colon, a single leading space in the value is dropped,
+ * multiple `data:` lines join with "\n", comment lines start with ":", and an
+ * empty line dispatches the event.
+ */
+export class SseDecoder {
+  private buffer = ""
+  private eventType = ""
+  private dataLines: string[] = []
+
+  push(chunk: string): SseEvent[] {
+    this.buffer += chunk
+    const events: SseEvent[] = []
+
+    let lineEnd: RegExpExecArray | null
+    const lineBreak = /\r\n|\r|\n/
+    while ((lineEnd = lineBreak.exec(this.buffer))) {
+      // A trailing "\r" may be the first half of "\r\n"; wait for more input.
+      if (lineEnd[0] === "\r" && lineEnd.index === this.buffer.length - 1) break
+
+      const line = this.buffer.slice(0, lineEnd.index)
+      this.buffer = this.buffer.slice(lineEnd.index + lineEnd[0].length)
+
+      const event = this.processLine(line)
+      if (event) events.push(event)
+    }
+
+    return events
+  }
+
+  /** Flush a final event that was not followed by a blank line. */
+  end(): SseEvent[] {
+    const events: SseEvent[] = []
+    if (this.buffer) {
+      const event = this.processLine(this.buffer)
+      this.buffer = ""
+      if (event) events.push(event)
+    }
+    const event = this.processLine("")
+    if (event) events.push(event)
+    return events
+  }
+
+  private processLine(line: string): SseEvent | null {
+    if (line === "") {
+      if (this.dataLines.length === 0) {
+        this.eventType = ""
+        return null
+      }
+      const event = { event: this.eventType || "message", data: this.dataLines.join("\n") }
+      this.eventType = ""
+      this.dataLines = []
+      return event
+    }
+
+    if (line.startsWith(":")) return null
+
+    const colon = line.indexOf(":")
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? "" : line.slice(colon + 1)
+    if (value.startsWith(" ")) value = value.slice(1)
+
+    if (field === "data") {
+      this.dataLines.push(value)
+    } else if (field === "event") {
+      this.eventType = value
+    }
+    // "id" and "retry" are irrelevant for a single request/response exchange
+
+    return null
+  }
+}
+
+async function readEventStream(
+  response: Response,
+  requestId: JsonRpcId,
+  options: McpResponseOptions
+): Promise<JsonRpcMessage> {
+  if (!response.body) {
+    throw new Error("Invalid MCP response: empty event stream")
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  const sse = new SseDecoder()
+
+  const handle = (events: SseEvent[]) => {
+    for (const event of events) {
+      if (event.event !== "message" || !event.data) continue
+      const found = consumeMessages(parseMessages(event.data), requestId, options)
+      if (found) return found
+    }
+    return undefined
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      const found = done
+        ? handle(sse.push(decoder.decode()).concat(sse.end()))
+        : handle(sse.push(decoder.decode(value, { stream: true })))
+      if (found) return found
+      if (done) break
+    }
+  } finally {
+    // The server may keep the stream open after responding; we are done with it.
+    reader.cancel().catch(() => {})
+  }
+
+  throw new Error(`Invalid MCP response: stream ended without a response to request ${requestId}`)
+}
+
+/**
+ * Read the JSON-RPC response to `requestId` from an MCP endpoint's HTTP
+ * response, handling both JSON and SSE bodies.
+ */
+export async function readMcpResponse(
+  response: Response,
+  requestId: JsonRpcId,
+  options: McpResponseOptions = {}
+): Promise<JsonRpcMessage> {
+  const contentType = (response.headers.get("content-type") ?? "").toLowerCase()
+
+  if (contentType.includes("text/event-stream")) {
+    return readEventStream(response, requestId, options)
+  }
+
+  if (contentType.includes("application/json")) {
+    const text = await response.text()
+    const found = consumeMessages(parseMessages(text), requestId, options)
+    if (!found) {
+      throw new Error(`Invalid MCP response: no response to request ${requestId}`)
+    }
+    return found
+  }
+
+  throw new Error(
+    `Invalid MCP response: unexpected content type '${contentType || "none"}'`
+  )
+}
@@ -0,0 +1,246 @@
+import {
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "@modelcontextprotocol/sdk/types.js"
+import pkg from "../../package.json" with { type: "json" }
+import {
+  readMcpResponse,
+  type JsonRpcMessage,
+  type McpResponseOptions,
+} from "./mcp-response-parser.js"
+
+export interface NextJsMCPServerInfo {
+  name: string
+  version: string
+}
+
+export interface McpRequestOptions extends McpResponseOptions {
+  /** Aborts the request; the server is then sent `notifications/cancelled` for it */
+  signal?: AbortSignal
+}
+
+export interface McpEndpoint {
+  url: string
+  fetchOptions: Record<string, unknown>
+}
+
+/**
+ * Thrown when the endpoint answers with a non-2xx HTTP status.
+ * The runtime manager maps these to user-facing messages.
+ */
+export class McpHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly statusText: string
+  ) {
+    super(`HTTP ${status}: ${statusText}`)
+    this.name = "McpHttpError"
+  }
+}
+
+// JSON-RPC "method not found": the endpoint predates the initialize handshake.
+const METHOD_NOT_FOUND = -32601
+
+// How long to spend telling a server about a cancelled request
+const CANCEL_NOTIFICATION_TIMEOUT_MS = 2000
+// The handshake is shared by concurrent callers, so it can't use any one
+// caller's signal; this bounds it instead
+const HANDSHAKE_TIMEOUT_MS = 30_000
+
+// Settles like `promise`, or rejects once `signal` aborts without cancelling
+// the work behind `promise`
+function raceSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(signal.reason)
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort))
+  })
+}
+
+/**
+ * An MCP client session with one Next.js dev server's /_next/mcp endpoint.
+ *
+ * Performs the initialize handshake on first use, negotiates the protocol
+ * version, keeps the server's capabilities and info, and sends the
+ * Mcp-Session-Id the server assigned (if any) on every later request. When the
+ * server forgets the session (e.g. `next dev` restarted), the session
+ * re-initializes once and retries.
+ */
+export class NextJsMCPSession {
+  protocolVersion: string | undefined
+  serverInfo: NextJsMCPServerInfo | undefined
+  capabilities: Record<string, unknown> | undefined
+  // False when the endpoint does not implement initialize (requests are sent bare)
+  handshake = true
+
+  private sessionId: string | undefined
+  private nextId = 1
+  private initializing: Promise<void> | undefined
+
+  constructor(private readonly resolveEndpoint: () => Promise<McpEndpoint>) {}
+
+  get initialized(): boolean {
+    return this.protocolVersion !== undefined || !this.handshake
+  }
+
+  /** Forget all negotiated state; the next request performs a fresh handshake. */
+  reset(): void {
+    this.sessionId = undefined
+    this.protocolVersion = undefined
+    this.serverInfo = undefined
+    this.capabilities = undefined
+    this.handshake = true
+    this.initializing = undefined
+  }
+
+  async connect(signal?: AbortSignal): Promise<void> {
+    if (this.initialized) return
+    this.initializing ??= this.initialize(AbortSignal.timeout(HANDSHAKE_TIMEOUT_MS)).catch(
+      (error) => {
+        this.initializing = undefined
+        throw error
+      }
+    )
+    // A caller that gives up leaves the handshake running for the others
+    await raceSignal(this.initializing, signal)
+  }
+
+  async request(
+    method: string,
+    params: Record<string, unknown> = {},
+    options: McpRequestOptions = {}
+  ): Promise<JsonRpcMessage> {
+    await this.connect(options.signal)
+
+    const hadSession = this.sessionId !== undefined
+    try {
+      return await this.send(method, params, options)
+    } catch (error) {
+      // The server dropped our session (404 per spec, 400 on some servers):
+      // it most likely restarted. Handshake again and retry once.
+      if (hadSession && error instanceof McpHttpError && [400, 404].includes(error.status)) {
+        this.reset()
+        await this.connect(options.signal)
+        return this.send(method, params, options)
+      }
+      throw error
+    }
+  }
+
+  private async initialize(signal?: AbortSignal): Promise<void> {
+    let response: JsonRpcMessage
+    try {
+      response = await this.send(
+        "initialize",
+        {
+          protocolVersion: LATEST_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: "next-devtools-mcp", version: pkg.version },
+        },
+        { signal },
+        { captureSessionId: true }
+      )
+    } catch (error) {
+      // Endpoints that only accept bare tools/* calls reject initialize outright.
+      // A 404 means there is no endpoint at all, which callers must see.
+      if (error instanceof McpHttpError && error.status !== 404 && error.status < 500) {
+        this.handshake = false
+        return
+      }
+      throw error
+    }
+
+    if (response.error) {
+      if (response.error.code === METHOD_NOT_FOUND) {
+        this.handshake = false
+        return
+      }
+      throw new Error(`MCP initialize failed: ${response.error.message}`)
+    }
+
+    const result = response.result ?? {}
+    const protocolVersion = result.protocolVersion as string | undefined
+    if (!protocolVersion || !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+      throw new Error(
+        `Next.js MCP endpoint negotiated unsupported protocol version: ${protocolVersion ?? "none"}`
+      )
+    }
+
+    this.protocolVersion = protocolVersion
+    this.capabilities = result.capabilities as Record<string, unknown> | undefined
+    this.serverInfo = result.serverInfo as NextJsMCPServerInfo | undefined
+
+    await this.notify("notifications/initialized")
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+    }
+    if (this.sessionId) headers["Mcp-Session-Id"] = this.sessionId
+    if (this.protocolVersion) headers["MCP-Protocol-Version"] = this.protocolVersion
+    return headers
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const { url, fetchOptions } = await this.resolveEndpoint()
+    const response = await fetch(url, {
+      ...fetchOptions,
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify(body),
+      signal,
+    })
+
+    if (!response.ok) {
+      // Drain the body so the connection can be reused
+      await response.text().catch(() => "")
+      throw new McpHttpError(response.status, response.statusText)
+    }
+    return response
+  }
+
+  private async send(
+    method: string,
+    params: Record<string, unknown>,
+    options: McpRequestOptions,
+    { captureSessionId = false } = {}
+  ): Promise<JsonRpcMessage> {
+    const { signal } = options
+    const id = this.nextId++
+
+    try {
+      const response = await this.post({ jsonrpc: "2.0", method, params, id }, signal)
+
+      if (captureSessionId) {
+        this.sessionId = response.headers.get("mcp-session-id") ?? undefined
+      }
+
+      return await readMcpResponse(response, id, options)
+    } catch (error) {
+      // Aborting the fetch only closes our connection; tell the server to stop
+      // working on the request too. Best effort: it may be the thing that hangs.
+      if (signal?.aborted && method !== "initialize") {
+        const reason = signal.reason instanceof Error ? signal.reason.message : undefined
+        this.notify(
+          "notifications/cancelled",
+          { requestId: id, reason },
+          AbortSignal.timeout(CANCEL_NOTIFICATION_TIMEOUT_MS)
+        ).catch(() => {})
+      }
+      throw error
+    }
+  }
+
+  private async notify(
+    method: string,
+    params?: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await this.post({ jsonrpc: "2.0", method, ...(params && { params }) }, signal)
+    await response.text().catch(() => "")
+  }
+}
@@ -3,19 +3,57 @@ import { pidToPorts } from "pid-port"
 import { exec } from "child_process"
 import { promisify } from "util"
 import { Agent as UndiciAgent } from "undici"
+import {
+  NextJsMCPSession,
+  McpHttpError,
+  type McpRequestOptions,
+  type NextJsMCPServerInfo,
+} from "./nextjs-mcp-session.js"
+import { readNextVersion, resolveProjectRoot } from "./project-root.js"
+import { parentCommand } from "./server-fingerprint.js"
+import {
+  detectServerMode,
+  diagnoseIncompatibleServer,
+  type IncompatibleNextJsServer,
+} from "./incompatible-servers.js"
+import { getListeningPortsFromProc } from "./proc-net.js"
+import { getConfig, getDiscoveryConfig } from "./config.js"
+import { mapWithConcurrency } from "./concurrency.js"
+import { withRetry, type RetryAttempt } from "./retry.js"
+import { DevtoolsError, errorFields } from "./error-codes.js"
+import {
+  listDockerEndpoints,
+  type DockerContainer,
+  type DockerEndpoint,
+} from "./docker-discovery.js"
+import { log } from "../telemetry/logger.js"
 
 const execAsync = promisify(exec)
 
-interface NextJsServerInfo {
+export interface NextJsServerInfo {
+  // Host the server was found on
+  host: string
   port: number
   pid: number
   command: string
+  // Directory of the Next.js project the server runs, when it can be determined
+  projectRoot?: string
+  // Set when the port is published by a local Docker container
+  container?: DockerContainer
+  // Other ports the same process listens on (e.g. the Node.js inspector)
+  otherPorts?: NextJsServerPort[]
 }
 
-interface NextJsMCPTool {
+export interface NextJsServerPort {
+  port: number
+  kind: "debugger" | "other"
+}
+
+export interface NextJsMCPTool {
   name: string
   description?: string
   inputSchema?: Record<string, unknown>
+  annotations?: { readOnlyHint?: boolean; idempotentHint?: boolean }
 }
 
 interface NextJsMCPResponse {
@@ -31,21 +69,84 @@ interface NextJsMCPResponse {
   id: number | string
 }
 
-// Cache detected protocol per port to avoid repeated detection
-const protocolCache = new Map<number, "http" | "https">()
+export interface NextJsRequestOptions extends McpRequestOptions {
+  /** Give up on the dev server after this long (defaults to getRequestTimeoutMs()) */
+  timeoutMs?: number
+  /** Ask the dev server to report progress on a tool call under this token */
+  progressToken?: string | number
+  /** Host the server runs on (defaults to where discovery last saw the port) */
+  host?: string
+  /**
+   * Whether repeating the request is harmless, so it may be retried after a
+   * failure the server may have seen. Defaults to true for everything but
+   * tools/call.
+   */
+  idempotent?: boolean
+  /** Called before each retry of a transient failure (restart, HMR, 503) */
+  onRetry?: (attempt: RetryAttempt) => void
+}
+
+/**
+ * The dev server did not answer in time, e.g. because it is stuck compiling.
+ * The upstream request has been aborted.
+ */
+export class UpstreamTimeoutError extends DevtoolsError {
+  constructor(
+    readonly port: number,
+    readonly method: string,
+    readonly timeoutMs: number
+  ) {
+    super(
+      "UPSTREAM_TIMEOUT",
+      `Next.js dev server on port ${port} did not answer '${method}' within ${timeoutMs}ms`,
+      "The dev server may be busy compiling or stuck. Check its terminal output, then retry (optionally with a larger timeoutMs) or restart the dev server.",
+      { port, method, timeoutMs }
+    )
+    this.name = "UpstreamTimeoutError"
+  }
+}
+
+export function getRequestTimeoutMs(): number {
+  return getConfig().timeouts.callMs
+}
+
+// Caches below are keyed by endpointKey(host, port)
+
+// Cache detected protocol per endpoint to avoid repeated detection
+const protocolCache = new Map<string, "http" | "https">()
+
+// One MCP client session per dev server, reused across calls
+const sessions = new Map<string, NextJsMCPSession>()
+
+// Host each port was last discovered on, so callers can address servers by port
+const discoveredHosts = new Map<number, string>()
+
+// Next.js processes the last discovery found without a working /_next/mcp
+let incompatibleServers: IncompatibleNextJsServer[] = []
 
 let insecureHttpsAgent: UndiciAgent | undefined
 
-const MCP_HOST = process.env.NEXT_DEVTOOLS_HOST ?? "localhost"
+function endpointKey(host: string, port: number): string {
+  return `${host}:${port}`
+}
+
+/** The first configured host; locally discovered processes are reached here. */
+export function getDefaultHost(): string {
+  return getDiscoveryConfig().hosts[0]
+}
+
+/** The host discovery last saw a port on, else the default host. */
+export function hostForPort(port: number): string {
+  return discoveredHosts.get(port) ?? getDefaultHost()
+}
 
 /**
  * Get fetch options for HTTPS requests
- * Automatically allows insecure TLS for HTTPS (self-signed certificates)
- * Can be disabled via NODE_TLS_REJECT_UNAUTHORIZED=0
+ * Accepts self-signed certificates when `tls.allowSelfSigned` is set in the
+ * config (or NODE_TLS_REJECT_UNAUTHORIZED=0)
  */
 function getFetchOptions(protocol: "http" | "https") {
-  const allowInsecure =
-    protocol === "https" && process.env.NODE_TLS_REJECT_UNAUTHORIZED === "0"
+  const allowInsecure = protocol === "https" && getConfig().tls.allowSelfSigned
 
   if (protocol !== "https" || !allowInsecure) return {}
 
@@ -60,12 +161,13 @@ function getFetchOptions(protocol: "http" | "https") {
  * Returns the Response if successful, null otherwise
  */
 async function probeMCPEndpoint(
+  host: string,
   port: number,
   protocol: "http" | "https",
-  timeoutMs: number = 500
+  timeoutMs: number = getConfig().timeouts.probeMs
 ): Promise<Response | null> {
   try {
-    const url = `${protocol}://${MCP_HOST}:${port}/_next/mcp`
+    const url = `${protocol}://${host}:${port}/_next/mcp`
     const fetchOptions = getFetchOptions(protocol)
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
@@ -93,31 +195,55 @@ async function probeMCPEndpoint(
   }
 }
 
+/**
+ * Whether a probe reached an MCP endpoint. Endpoints that enforce the MCP
+ * session reject a bare tools/list with a JSON-RPC error (e.g. 400 "Server
+ * not initialized"); MCP is still there, and the session does the handshake
+ * once the server is used.
+ */
+async function isMCPResponse(response: Response | null): Promise<boolean> {
+  if (!response) return false
+  if (response.ok) return true
+  if (response.status === 404 || response.status < 400 || response.status >= 500) return false
+  try {
+    const body = (await response.json()) as { jsonrpc?: unknown }
+    return body?.jsonrpc === "2.0"
+  } catch {
+    return false
+  }
+}
+
 /**
  * Probe a port for MCP endpoint, trying both protocols
  * Returns the successful protocol if found, null otherwise
  * Also caches the detected protocol
  */
-async function probePort(port: number, timeoutMs: number = 500): Promise<"http" | "https" | null> {
+async function probePort(
+  port: number,
+  timeoutMs: number = getConfig().timeouts.probeMs,
+  host: string = hostForPort(port)
+): Promise<"http" | "https" | null> {
+  const key = endpointKey(host, port)
+
   // Check cache first
-  if (protocolCache.has(port)) {
-    const cachedProtocol = protocolCache.get(port)!
-    const response = await probeMCPEndpoint(port, cachedProtocol, timeoutMs)
-    if (response?.ok) {
+  if (protocolCache.has(key)) {
+    const cachedProtocol = protocolCache.get(key)!
+    const response = await probeMCPEndpoint(host, port, cachedProtocol, timeoutMs)
+    if (await isMCPResponse(response)) {
       return cachedProtocol
     }
     // Cache might be stale, clear it and try again
-    protocolCache.delete(port)
+    protocolCache.delete(key)
   }
 
   // Try HTTP first (more common for local dev)
   for (const protocol of ["http", "https"] as const) {
-    const response = await probeMCPEndpoint(port, protocol, timeoutMs)
-    if (response && response.status !== 404) {
-      protocolCache.set(port, protocol)
-      if (response.ok) {
-        return protocol
-      }
+    const response = await probeMCPEndpoint(host, port, protocol, timeoutMs)
+    // Only an MCP answer settles the protocol: whatever answers while
+    // Next.js is still starting may not be what serves /_next/mcp later
+    if (await isMCPResponse(response)) {
+      protocolCache.set(key, protocol)
+      return protocol
     }
   }
 
@@ -128,12 +254,16 @@ async function probePort(port: number, timeoutMs: number = 500): Promise<"http"
  * Detect protocol for a port (for use when making requests)
  * Returns cached protocol or defaults to http
  */
-async function detectProtocol(port: number): Promise<"http" | "https"> {
-  if (protocolCache.has(port)) {
-    return protocolCache.get(port)!
+async function detectProtocol(
+  port: number,
+  host: string = hostForPort(port)
+): Promise<"http" | "https"> {
+  const cached = protocolCache.get(endpointKey(host, port))
+  if (cached) {
+    return cached
   }
 
-  const protocol = await probePort(port)
+  const protocol = await probePort(port, undefined, host)
   return protocol ?? "http"
 }
 
@@ -206,17 +336,26 @@ async function getPortsViaNetstat(pid: number): Promise<number[]> {
 }
 
 /**
- * Get the listening port for a process by PID
- * Uses pid-port on most systems, falls back to platform-specific commands
+ * Get the listening ports for a process by PID
+ * Reads procfs on Linux, then uses pid-port, then falls back to
+ * platform-specific commands
  * @param pid - Process ID to check
- * @returns The first listening port found, or null if none
+ * @returns Every listening port found (empty if none)
  */
-async function getListeningPort(pid: number): Promise<number | null> {
-  // First try the pid-port library (works on most systems)
+async function getListeningPorts(pid: number): Promise<number[]> {
+  // On Linux, procfs needs no external binaries (slim containers lack ss/lsof)
+  if (process.platform === 'linux') {
+    const procPorts = await getListeningPortsFromProc(pid)
+    if (procPorts.length > 0) {
+      return procPorts
+    }
+  }
+
+  // Then try the pid-port library (works on most systems)
   try {
     const ports = await pidToPorts(pid)
     if (ports.size > 0) {
-      return Array.from(ports)[0]
+      return Array.from(ports)
     }
   } catch {
     // Continue to fallback methods
@@ -225,25 +364,27 @@ async function getListeningPort(pid: number): Promise<number | null> {
   // Platform-specific fallbacks
   if (process.platform === 'win32') {
     // On Windows, use netstat
-    const netstatPorts = await getPortsViaNetstat(pid)
-    if (netstatPorts.length > 0) {
-      return netstatPorts[0]
-    }
+    return getPortsViaNetstat(pid)
   } else if (process.platform === 'linux') {
     // On Linux (including WSL), use ss command
-    const ssPorts = await getPortsViaSs(pid)
-    if (ssPorts.length > 0) {
-      return ssPorts[0]
-    }
+    return getPortsViaSs(pid)
   }
 
-  return null
+  return []
 }
 
-async function findNextJsServers(): Promise<NextJsServerInfo[]> {
+interface NextJsProcess {
+  pid: number
+  ppid?: number
+  command: string
+  // Every port the process listens on; which one serves /_next/mcp is
+  // decided by probing
+  ports: number[]
+}
+
+async function findNextJsProcesses(): Promise<NextJsProcess[]> {
   try {
-    const servers: NextJsServerInfo[] = []
-    const seenPorts = new Set<number>()
+    const processes: NextJsProcess[] = []
 
     // On Unix/macOS, Next.js renames its worker process to "next-server"
     // On Windows, the process is "node.exe" so we need to search by command line
@@ -265,10 +406,9 @@ async function findNextJsServers(): Promise<NextJsServerInfo[]> {
           continue
         }
 
-        const port = await getListeningPort(proc.pid)
-        if (port && !seenPorts.has(port)) {
-          seenPorts.add(port)
-          servers.push({ port, pid: proc.pid, command })
+        const ports = await getListeningPorts(proc.pid)
+        if (ports.length > 0) {
+          processes.push({ pid: proc.pid, ppid: proc.ppid, command, ports })
         }
       }
     } else {
@@ -280,102 +420,204 @@ async function findNextJsServers(): Promise<NextJsServerInfo[]> {
           continue
         }
 
-        const command = proc.cmd || ""
-        const port = await getListeningPort(proc.pid)
-
-        if (port && !seenPorts.has(port)) {
-          seenPorts.add(port)
-          servers.push({ port, pid: proc.pid, command })
+        const ports = await getListeningPorts(proc.pid)
+        if (ports.length > 0) {
+          processes.push({ pid: proc.pid, ppid: proc.ppid, command: proc.cmd || "", ports })
         }
       }
     }
 
-    return servers
+    return processes
   } catch (error) {
     console.error("[next-devtools-mcp] Error finding Next.js servers:", error)
     return []
   }
 }
 
+// `next dev --inspect` passes the flag through NODE_OPTIONS, so it rarely
+// shows up in the next-server command line; assume the default port too
+const DEFAULT_INSPECTOR_PORT = 9229
+
+/**
+ * Ports the Node.js inspector may be on: the default, plus any given on the
+ * command line with --inspect, --inspect-brk or --inspect-wait=[host:]port.
+ */
+function inspectorPorts(command: string): Set<number> {
+  const ports = new Set<number>([DEFAULT_INSPECTOR_PORT])
+  for (const match of command.matchAll(/--inspect(?:-brk|-wait)?=(?:\S*:)?(\d+)(?=\s|$)/g)) {
+    ports.add(Number(match[1]))
+  }
+  return ports
+}
+
+/** The ports of a process other than the one serving /_next/mcp. */
+function describeOtherPorts(proc: NextJsProcess, mcpPort: number): NextJsServerPort[] {
+  const debuggerPorts = inspectorPorts(proc.command)
+  return proc.ports
+    .filter((port) => port !== mcpPort)
+    .map((port) => ({ port, kind: debuggerPorts.has(port) ? "debugger" : "other" }))
+}
+
+function getSession(host: string, port: number): NextJsMCPSession {
+  const key = endpointKey(host, port)
+  let session = sessions.get(key)
+  if (!session) {
+    session = new NextJsMCPSession(async () => {
+      const protocol = await detectProtocol(port, host)
+      return {
+        url: `${protocol}://${host}:${port}/_next/mcp`,
+        fetchOptions: getFetchOptions(protocol),
+      }
+    })
+    sessions.set(key, session)
+  }
+  return session
+}
+
+/**
+ * Drop everything cached about a server (protocol, MCP session). Called when
+ * the server stopped or was replaced, so the next call starts fresh.
+ */
+export function forgetNextJsServer(port: number, host: string = hostForPort(port)): void {
+  const key = endpointKey(host, port)
+  sessions.get(key)?.reset()
+  sessions.delete(key)
+  protocolCache.delete(key)
+}
+
 async function makeNextJsMCPRequest(
   port: number,
   method: string,
-  params: Record<string, unknown> = {}
+  params: Record<string, unknown> = {},
+  {
+    timeoutMs = getRequestTimeoutMs(),
+    host = hostForPort(port),
+    idempotent = method !== "tools/call",
+    onRetry,
+    ...options
+  }: NextJsRequestOptions = {}
 ): Promise<NextJsMCPResponse> {
-  const protocol = await detectProtocol(port)
-  const url = `${protocol}://${MCP_HOST}:${port}/_next/mcp`
-  const fetchOptions = getFetchOptions(protocol)
-
-  const jsonRpcRequest = {
-    jsonrpc: "2.0",
-    method,
-    params,
-    id: Date.now(),
-  }
+  const session = getSession(host, port)
+  // One deadline for all attempts, so retries never stretch a call past it
+  const timeout = AbortSignal.timeout(timeoutMs)
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout
+  let retries = 0
 
   try {
-    const response = await fetch(url, {
-      ...fetchOptions,
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json, text/event-stream",
-      },
-      body: JSON.stringify(jsonRpcRequest),
-    })
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error(
-          `MCP endpoint not found. Next.js MCP support requires Next.js 16+. ` +
-            `If you're on an older version, upgrade by running 'npx @next/codemod@latest upgrade latest'. ` +
-            `If you're already on Next.js 16+: MCP is enabled by default - make sure the dev server is running.`
-        )
+    const mcpResponse = (await withRetry(
+      () => session.request(method, params, { ...options, signal }),
+      {
+        policy: getConfig().retry,
+        idempotent,
+        signal,
+        onRetry: (attempt, error) => {
+          retries = attempt.attempt
+          // A restarted server won't know our session; handshake again
+          if (!(error instanceof McpHttpError)) session.reset()
+          log("Retrying Next.js MCP request", { port, method, ...attempt })
+          onRetry?.(attempt)
+        },
       }
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    )) as NextJsMCPResponse
+
+    if (mcpResponse.error) {
+      throw new DevtoolsError(
+        "UPSTREAM_TOOL_ERROR",
+        `MCP Error: ${mcpResponse.error.message}`,
+        "The dev server rejected the request. Check the tool name and arguments against 'nextjs_index'.",
+        { port, method, rpcError: mcpResponse.error }
+      )
     }
 
-    const text = await response.text()
-    const dataLine = text.split("\n").find((line) => line.startsWith("data: "))
+    return mcpResponse
+  } catch (error) {
+    // The caller gave up; it knows why.
+    if (options.signal?.aborted) throw error
 
-    if (!dataLine) {
-      throw new Error("Invalid SSE response: no data line found")
+    if (timeout.aborted) {
+      throw new UpstreamTimeoutError(port, method, timeoutMs)
     }
 
-    const jsonData = dataLine.substring(6)
-    const mcpResponse: NextJsMCPResponse = JSON.parse(jsonData)
-
-    if (mcpResponse.error) {
-      throw new Error(`MCP Error: ${mcpResponse.error.message}`)
+    if (error instanceof McpHttpError && error.status === 404) {
+      throw new DevtoolsError(
+        "MCP_ENDPOINT_MISSING",
+        `MCP endpoint not found on port ${port}. Next.js MCP support requires Next.js 16+.`,
+        "If you're on an older version, upgrade by running 'npx @next/codemod@latest upgrade latest'. " +
+          "If you're already on Next.js 16+: MCP is enabled by default - make sure this is the dev server ('next dev'), not 'next start'.",
+        { port, host, status: 404 }
+      )
     }
 
-    return mcpResponse
-  } catch (error) {
     if (error instanceof TypeError && error.message.includes("fetch failed")) {
-      throw new Error(
-        `Cannot connect to Next.js dev server on port ${port}. ` +
-          `Make sure the dev server is running. ` +
-          `Next.js MCP support requires Next.js 16+ where MCP is enabled by default. ` +
-          `If you're on Next.js 15 or earlier, upgrade by running 'npx @next/codemod@latest upgrade latest'.`
+      // The server is gone; whatever runs on this port next needs a new session.
+      session.reset()
+      const retried = retries > 0 ? ` (still unreachable after ${retries} retries)` : ""
+      throw new DevtoolsError(
+        "SERVER_UNREACHABLE",
+        `Cannot connect to Next.js dev server on port ${port}${retried}.`,
+        "Make sure the dev server is running ('npm run dev'). " +
+          "Next.js MCP support requires Next.js 16+ where MCP is enabled by default. " +
+          "If you're on Next.js 15 or earlier, upgrade by running 'npx @next/codemod@latest upgrade latest'.",
+        { port, host, retries }
       )
     }
 
-    if (
-      error instanceof Error &&
-      (error.message.includes("MCP endpoint not found") || error.message.includes("MCP Error"))
-    ) {
+    if (error instanceof DevtoolsError) {
       throw error
     }
 
     const errorMessage = error instanceof Error ? error.message : String(error)
-    throw new Error(`Failed to call Next.js MCP endpoint: ${errorMessage}`)
+    throw new DevtoolsError(
+      "UPSTREAM_ERROR",
+      `Failed to call Next.js MCP endpoint: ${errorMessage}`,
+      "Check the dev server's terminal output for errors, then retry.",
+      { port, host, method, ...(error instanceof McpHttpError && { status: error.status }) }
+    )
+  }
+}
+
+/**
+ * Server info negotiated during the MCP handshake with a dev server
+ * (e.g. { name: "Next.js", version: "16.1.0" }). Null if unavailable.
+ */
+export async function getNextJsServerInfo(
+  port: number,
+  host: string = hostForPort(port)
+): Promise<{
+  serverInfo: NextJsMCPServerInfo | null
+  protocolVersion: string | null
+}> {
+  const session = getSession(host, port)
+  try {
+    await session.connect(AbortSignal.timeout(getRequestTimeoutMs()))
+  } catch {
+    return { serverInfo: null, protocolVersion: null }
+  }
+  return {
+    serverInfo: session.serverInfo ?? null,
+    protocolVersion: session.protocolVersion ?? null,
   }
 }
 
-export async function listNextJsTools(port: number): Promise<NextJsMCPTool[]> {
+/**
+ * The runtime tools of a dev server. Unlike listNextJsTools, failures are
+ * thrown (as a DevtoolsError saying why), for callers that report them.
+ */
+export async function requestNextJsTools(
+  port: number,
+  host: string = hostForPort(port),
+  options: NextJsRequestOptions = {}
+): Promise<NextJsMCPTool[]> {
+  const response = await makeNextJsMCPRequest(port, "tools/list", {}, { ...options, host })
+  return response.result?.tools || []
+}
+
+export async function listNextJsTools(
+  port: number,
+  host: string = hostForPort(port)
+): Promise<NextJsMCPTool[]> {
   try {
-    const response = await makeNextJsMCPRequest(port, "tools/list", {})
-    return response.result?.tools || []
+    return await requestNextJsTools(port, host)
   } catch (error) {
     console.error("[Next.js Runtime Manager] Error listing tools:", error)
     return []
@@ -385,94 +627,243 @@ export async function listNextJsTools(port: number): Promise<NextJsMCPTool[]> {
 export async function callNextJsTool(
   port: number,
   toolName: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  options: NextJsRequestOptions = {}
 ): Promise<unknown> {
   try {
-    const response = await makeNextJsMCPRequest(port, "tools/call", {
-      name: toolName,
-      arguments: args,
-    })
+    const response = await makeNextJsMCPRequest(
+      port,
+      "tools/call",
+      {
+        name: toolName,
+        arguments: args,
+        ...(options.progressToken !== undefined && {
+          _meta: { progressToken: options.progressToken },
+        }),
+      },
+      options
+    )
 
     return response.result
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error)
-    throw new Error(`Failed to call tool '${toolName}': ${errorMessage}`)
+    if (error instanceof UpstreamTimeoutError || options.signal?.aborted) throw error
+    const { error: message, code, hint, details } = errorFields(error, "UPSTREAM_ERROR")
+    throw new DevtoolsError(code, `Failed to call tool '${toolName}': ${message}`, hint, {
+      ...details,
+      toolName,
+    })
   }
 }
 
 /**
- * Common ports to probe for Next.js dev servers
- * These are probed first before falling back to process discovery
+ * Discover Next.js servers by probing the configured ports on every configured
+ * host (3000-3010 on localhost by default, see config.ts).
+ * This is more reliable than process discovery on some OS
  */
-const COMMON_PORTS = [3000, 3001, 3002, 3003, 3004, 3005, 3006, 3007, 3008, 3009, 3010]
+async function discoverViaPortProbing(): Promise<NextJsServerInfo[]> {
+  const { hosts, ports, probeConcurrency } = getDiscoveryConfig()
+  const endpoints = hosts.flatMap((host) => ports.map((port) => ({ host, port })))
+
+  // Probe in parallel for speed, but bounded so wide ranges don't open
+  // hundreds of sockets at once
+  const results = await mapWithConcurrency(endpoints, probeConcurrency, async ({ host, port }) => {
+    const protocol = await probePort(port, undefined, host)
+    if (!protocol) return null
+    return {
+      host,
+      port,
+      pid: 0, // PID unknown when discovered via port probing
+      command: `Next.js server (discovered via port ${port})`,
+    }
+  })
+
+  return results.filter((result): result is NextJsServerInfo => result !== null)
+}
 
 /**
- * Discover Next.js servers by probing common ports
- * This is more reliable than process discovery on some OS
+ * Discover Next.js servers in local Docker containers by probing every TCP
+ * port they publish. Servers already in `known` (e.g. found by port probing)
+ * are labeled with their container instead of being probed again.
  */
-async function discoverViaPortProbing(): Promise<NextJsServerInfo[]> {
-  const servers: NextJsServerInfo[] = []
-
-  // Probe all common ports in parallel for speed
-  const results = await Promise.all(
-    COMMON_PORTS.map(async (port) => {
-      const protocol = await probePort(port)
-      if (protocol) {
-        return {
-          port,
-          pid: 0, // PID unknown when discovered via port probing
-          command: `Next.js server (discovered via port ${port})`,
-        }
-      }
-      return null
+async function discoverViaDocker(
+  socketPath: string,
+  known: NextJsServerInfo[]
+): Promise<NextJsServerInfo[]> {
+  let endpoints
+  try {
+    endpoints = await listDockerEndpoints(socketPath)
+  } catch (error) {
+    log("Docker discovery failed", {
+      socketPath,
+      error: error instanceof Error ? error.message : String(error),
     })
-  )
+    return []
+  }
+
+  const defaultHost = getDefaultHost()
+  const { probeConcurrency } = getDiscoveryConfig()
+
+  const probeEndpoint = async (endpoint: DockerEndpoint): Promise<NextJsServerInfo | null> => {
+    const host = endpoint.host ?? defaultHost
+    const command = `Docker container ${endpoint.container.name} (${endpoint.container.image})`
 
-  for (const result of results) {
-    if (result) {
-      servers.push(result)
+    const existing = known.find((s) => s.host === host && s.port === endpoint.port)
+    if (existing) {
+      existing.container = endpoint.container
+      existing.command = command
+      return null
     }
+
+    const protocol = await probePort(endpoint.port, undefined, host)
+    if (!protocol) return null
+    return { host, port: endpoint.port, pid: 0, command, container: endpoint.container }
   }
 
-  return servers
+  const results = await mapWithConcurrency(endpoints, probeConcurrency, probeEndpoint)
+  return results.filter((result): result is NextJsServerInfo => result !== null)
+}
+
+/**
+ * Gather what is known about a Next.js process that did not answer on
+ * /_next/mcp: its project's Next.js version, whether it is a dev or
+ * production server, and what the endpoint returned.
+ */
+async function diagnoseProcess(
+  proc: NextJsProcess,
+  host: string
+): Promise<IncompatibleNextJsServer> {
+  // Report the port the app is served on, not the inspector
+  const debuggerPorts = inspectorPorts(proc.command)
+  const port = proc.ports.find((p) => !debuggerPorts.has(p)) ?? proc.ports[0]
+
+  const [projectRoot, parent, response] = await Promise.all([
+    resolveProjectRoot(proc.pid, proc.command),
+    parentCommand(proc.pid, proc.ppid),
+    probeMCPEndpoint(host, port, protocolCache.get(endpointKey(host, port)) ?? "http"),
+  ])
+  const nextVersion = projectRoot ? await readNextVersion(projectRoot) : null
+
+  return {
+    host,
+    port,
+    pid: proc.pid,
+    command: proc.command,
+    ...(projectRoot && { projectRoot }),
+    ...(nextVersion && { nextVersion }),
+    ...diagnoseIncompatibleServer({
+      nextVersion,
+      mode: detectServerMode([proc.command, parent]),
+      status: response?.status ?? null,
+    }),
+  }
+}
+
+/**
+ * Next.js servers the last getAllAvailableServers() call found running but
+ * without a usable /_next/mcp endpoint, each with the reason and upgrade path.
+ */
+export function getIncompatibleServers(): IncompatibleNextJsServer[] {
+  return incompatibleServers
 }
 
 export async function getAllAvailableServers(): Promise<NextJsServerInfo[]> {
-  const seenPorts = new Set<number>()
+  const seen = new Set<string>()
   const allServers: NextJsServerInfo[] = []
 
-  // Step 1: Probe common ports first (most reliable, works on all OS)
+  // Step 1: Probe configured ports first (most reliable, works on all OS)
   const portProbedServers = await discoverViaPortProbing()
   for (const server of portProbedServers) {
-    if (!seenPorts.has(server.port)) {
-      seenPorts.add(server.port)
+    const key = endpointKey(server.host, server.port)
+    if (!seen.has(key)) {
+      seen.add(key)
       allServers.push(server)
     }
   }
 
-  // Step 2: Also try process discovery to find servers on non-standard ports
-  const processServers = await findNextJsServers()
+  // Step 1b: Ports published by Docker containers, which process discovery
+  // cannot see and which are often outside the configured range
+  const { docker } = getDiscoveryConfig()
+  if (docker) {
+    for (const server of await discoverViaDocker(docker.socketPath, allServers)) {
+      const key = endpointKey(server.host, server.port)
+      if (!seen.has(key)) {
+        seen.add(key)
+        allServers.push(server)
+      }
+    }
+  }
 
-  // Filter to servers not already found via port probing
-  const newServers = processServers.filter(server => !seenPorts.has(server.port))
+  // Step 2: Also try process discovery to find servers on non-standard ports.
+  // A process can listen on several ports (an inspector, a second server);
+  // whichever answers /_next/mcp is the server, the rest are metadata.
+  const processes = await findNextJsProcesses()
+  const defaultHost = getDefaultHost()
+  const unanswered: NextJsProcess[] = []
+
+  const processServers = await Promise.all(
+    processes.map(async (proc): Promise<NextJsServerInfo | null> => {
+      // Port probing cannot see which process answered; take pid and command
+      // from process discovery where both found the same server
+      const known = allServers.find((s) => s.host === defaultHost && proc.ports.includes(s.port))
+      if (known) {
+        known.pid = proc.pid
+        known.command = proc.command
+        const otherPorts = describeOtherPorts(proc, known.port)
+        if (otherPorts.length > 0) known.otherPorts = otherPorts
+        return null
+      }
+
+      // Allow a slower answer: the process is known to be a Next.js server
+      const timeoutMs = getConfig().timeouts.probeMs * 2
+      const answers = await Promise.all(
+        proc.ports.map((port) => probePort(port, timeoutMs, defaultHost))
+      )
+      const port = proc.ports.find((_, i) => answers[i] !== null)
+      if (port === undefined) {
+        unanswered.push(proc)
+        return null
+      }
 
-  // Verify MCP for process-discovered servers in parallel
-  const verifiedServers = await Promise.all(
-    newServers.map(async (server) => {
-      const hasMCP = await probePort(server.port, 1000)
-      return hasMCP ? server : null
+      const otherPorts = describeOtherPorts(proc, port)
+      return {
+        host: defaultHost,
+        port,
+        pid: proc.pid,
+        command: proc.command,
+        ...(otherPorts.length > 0 && { otherPorts }),
+      }
     })
   )
 
-  // Add verified servers
-  for (const server of verifiedServers) {
-    if (server) {
+  for (const server of processServers) {
+    if (server && !seen.has(endpointKey(server.host, server.port))) {
+      seen.add(endpointKey(server.host, server.port))
       allServers.push(server)
     }
   }
 
+  // Step 3: Map each server to the project it serves
+  await Promise.all(
+    allServers.map(async (server) => {
+      const projectRoot = await resolveProjectRoot(server.pid, server.command)
+      if (projectRoot) server.projectRoot = projectRoot
+    })
+  )
+
+  // Step 4: Explain why the Next.js processes without MCP can't be used
+  incompatibleServers = await Promise.all(
+    unanswered.map((proc) => diagnoseProcess(proc, defaultHost))
+  )
+
+  // Remember where each port lives so port-only calls reach the right host.
+  // With the same port on several hosts, the earlier-configured host wins.
+  discoveredHosts.clear()
+  for (const server of [...allServers].reverse()) {
+    discoveredHosts.set(server.port, server.host)
+  }
+
   return allServers
 }
 
-// Export detectProtocol, probePort, and MCP_HOST for use elsewhere
-export { detectProtocol, probePort, MCP_HOST }
+// Export detectProtocol and probePort for use elsewhere
+export { detectProtocol, probePort }
@@ -0,0 +1,92 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+
+// Listening TCP ports of a process on Linux, read straight from procfs so
+// discovery works in slim containers and CI images without `ss` or `lsof`.
+// A process's open sockets show up in /proc/<pid>/fd as links to
+// `socket:[<inode>]`; /proc/<pid>/net/tcp and tcp6 list every socket of the
+// process's network namespace with its inode, state and local address. (The
+// reader's own /proc/net misses processes in another namespace, such as a
+// container or `unshare`.)
+
+export interface ProcNetOptions {
+  // Where procfs is mounted; tests point this at a synthetic tree
+  procRoot?: string
+}
+
+// Socket state column value for LISTEN (see include/net/tcp_states.h)
+const TCP_LISTEN = "0A"
+
+async function socketInodes(pid: number, procRoot: string): Promise<Set<string>> {
+  const fdDir = path.join(procRoot, String(pid), "fd")
+  const inodes = new Set<string>()
+
+  let fds: string[]
+  try {
+    fds = await fs.readdir(fdDir)
+  } catch {
+    // Process gone, or not ours to inspect
+    return inodes
+  }
+
+  await Promise.all(
+    fds.map(async (fd) => {
+      try {
+        const match = (await fs.readlink(path.join(fdDir, fd))).match(/^socket:\[(\d+)\]$/)
+        if (match) inodes.add(match[1])
+      } catch {
+        // fd closed while we were reading
+      }
+    })
+  )
+  return inodes
+}
+
+/**
+ * Parse a /proc/<pid>/net/tcp or tcp6 table into listening sockets.
+ * Columns: sl local_address rem_address st tx_queue:rx_queue tr:tm->when
+ * retrnsmt uid timeout inode ...; addresses are hex `IP:PORT`.
+ */
+export function parseListeningSockets(table: string): Array<{ port: number; inode: string }> {
+  const sockets: Array<{ port: number; inode: string }> = []
+
+  for (const line of table.split("\n").slice(1)) {
+    const columns = line.trim().split(/\s+/)
+    if (columns.length < 10 || columns[3] !== TCP_LISTEN) continue
+
+    const port = parseInt(columns[1].split(":")[1], 16)
+    if (Number.isInteger(port) && port > 0) {
+      sockets.push({ port, inode: columns[9] })
+    }
+  }
+  return sockets
+}
+
+/**
+ * TCP ports a process is listening on, in the order the kernel lists them.
+ * Empty when procfs is unavailable or the process has no listening sockets.
+ */
+export async function getListeningPortsFromProc(
+  pid: number,
+  { procRoot = "/proc" }: ProcNetOptions = {}
+): Promise<number[]> {
+  const inodes = await socketInodes(pid, procRoot)
+  if (inodes.size === 0) return []
+
+  const ports = new Set<number>()
+  for (const table of ["tcp", "tcp6"]) {
+    let contents: string
+    try {
+      contents = await fs.readFile(path.join(procRoot, String(pid), "net", table), "utf8")
+    } catch {
+      // No IPv6, or not Linux
+      continue
+    }
+
+    for (const socket of parseListeningSockets(contents)) {
+      if (inodes.has(socket.inode)) ports.add(socket.port)
+    }
+  }
+
+  return Array.from(ports)
+}
@@ -0,0 +1,143 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+import { exec } from "child_process"
+import { promisify } from "util"
+import type { ProcNetOptions } from "./proc-net.js"
+
+const execAsync = promisify(exec)
+
+// Maps a dev server process to the Next.js project it serves: the nearest
+// directory (walking up from the process cwd, or from a path on its command
+// line) whose package.json depends on `next`.
+
+// pid -> project root. A pid keeps its cwd for its lifetime.
+const cache = new Map<number, string | null>()
+
+/**
+ * The working directory of a process: /proc/<pid>/cwd on Linux, lsof on macOS.
+ */
+async function getProcessCwd(pid: number, procRoot: string): Promise<string | null> {
+  try {
+    return await fs.readlink(path.join(procRoot, String(pid), "cwd"))
+  } catch {
+    // Not Linux, or the process is gone / not ours
+  }
+
+  if (process.platform === "darwin") {
+    try {
+      // -Fn prints one field per line; the cwd path is on the "n" line
+      const { stdout } = await execAsync(`lsof -a -p ${pid} -d cwd -Fn`)
+      const line = stdout.split("\n").find((l) => l.startsWith("n"))
+      if (line) return line.slice(1)
+    } catch {
+      // lsof missing or no permission
+    }
+  }
+
+  return null
+}
+
+/**
+ * Directories implied by a command line, e.g.
+ * `node /work/apps/web/node_modules/next/dist/server/lib/start-server.js`
+ * implies /work/apps/web.
+ */
+export function projectDirsFromCommand(command: string): string[] {
+  const dirs: string[] = []
+  for (const token of command.split(/\s+/)) {
+    const match = token.match(/^(.*?)[\\/]node_modules[\\/]/)
+    if (match && path.isAbsolute(match[1])) {
+      dirs.push(match[1])
+    }
+  }
+  return dirs
+}
+
+async function dependsOnNext(dir: string): Promise<boolean> {
+  try {
+    const pkg = JSON.parse(await fs.readFile(path.join(dir, "package.json"), "utf8"))
+    return Boolean(pkg.dependencies?.next ?? pkg.devDependencies?.next)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Walk up from `start` to the nearest directory whose package.json depends
+ * on `next`.
+ */
+export async function findNextProjectRoot(start: string): Promise<string | null> {
+  let dir = path.resolve(start)
+  while (true) {
+    if (await dependsOnNext(dir)) return dir
+    const parent = path.dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+/**
+ * The Next.js version a project uses: from the installed next/package.json
+ * (in the project or a hoisting parent), else the version the project's
+ * package.json asks for ("^15.2.0" -> "15.2.0"). Null for tags like "latest".
+ */
+export async function readNextVersion(projectRoot: string): Promise<string | null> {
+  let dir = path.resolve(projectRoot)
+  while (true) {
+    try {
+      const pkgPath = path.join(dir, "node_modules", "next", "package.json")
+      const pkg = JSON.parse(await fs.readFile(pkgPath, "utf8"))
+      if (typeof pkg.version === "string") return pkg.version
+    } catch {
+      // Not installed here; try the parent
+    }
+    const parent = path.dirname(dir)
+    if (parent === dir) break
+    dir = parent
+  }
+
+  try {
+    const pkg = JSON.parse(await fs.readFile(path.join(projectRoot, "package.json"), "utf8"))
+    const range: unknown = pkg.dependencies?.next ?? pkg.devDependencies?.next
+    const match = typeof range === "string" ? range.match(/\d+(?:\.\d+){0,2}/) : null
+    return match ? match[0] : null
+  } catch {
+    return null
+  }
+}
+
+export async function resolveProjectRoot(
+  pid: number,
+  command: string,
+  { procRoot = "/proc" }: ProcNetOptions = {}
+): Promise<string | null> {
+  const cached = pid > 0 ? cache.get(pid) : undefined
+  if (cached !== undefined) return cached
+
+  const cwd = pid > 0 ? await getProcessCwd(pid, procRoot) : null
+  const candidates = [...(cwd ? [cwd] : []), ...projectDirsFromCommand(command)]
+
+  let root: string | null = null
+  for (const candidate of candidates) {
+    root = await findNextProjectRoot(candidate)
+    if (root) break
+  }
+
+  if (pid > 0) cache.set(pid, root)
+  return root
+}
+
+/**
+ * Whether a server rooted at `projectRoot` belongs to `projectPath`: the path
+ * is inside the project (a file or subfolder being edited) or the project is
+ * inside the path (a monorepo root).
+ */
+export function isSameProject(projectRoot: string, projectPath: string): boolean {
+  const inside = (parent: string, child: string) => {
+    const rel = path.relative(parent, child)
+    return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel))
+  }
+  const root = path.resolve(projectRoot)
+  const target = path.resolve(projectPath)
+  return inside(root, target) || inside(target, root)
+}
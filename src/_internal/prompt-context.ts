@@ -0,0 +1,111 @@
+import { z } from "zod"
+import {
+  getAllAvailableServers,
+  getDefaultHost,
+  listNextJsTools,
+  type NextJsMCPTool,
+  type NextJsServerInfo,
+} from "./nextjs-runtime-manager.js"
+import { isSameProject } from "./project-root.js"
+import { resolveDocsLocation, type DocsLocation } from "../tools/nextjs-docs.js"
+
+// Prompt arguments are always strings; ports get the same checks as the
+// tools' `port`, so a typo fails here instead of probing port NaN
+export const promptPortSchema = z
+  .string()
+  .transform((val) => parseInt(val, 10))
+  .pipe(
+    z
+      .number({ invalid_type_error: "Port must be a number" })
+      .int()
+      .min(1, "Port must be between 1 and 65535")
+      .max(65535, "Port must be between 1 and 65535")
+  )
+
+export interface RuntimeContext {
+  servers: Array<NextJsServerInfo & { tools: NextJsMCPTool[] }>
+  docs: DocsLocation
+}
+
+/**
+ * Gather the live state a prompt is assembled from: running dev servers (or
+ * just the requested port), the runtime tools each one exposes, and where the
+ * project's version-accurate docs live.
+ */
+export async function gatherRuntimeContext(options: {
+  port?: number
+  projectPath?: string
+}): Promise<RuntimeContext> {
+  const discovered = await getAllAvailableServers()
+
+  // An explicit port is used even if discovery missed it. Otherwise prefer
+  // the servers running the given project, if any are.
+  let targets = discovered
+  if (options.port !== undefined) {
+    const match = discovered.find((s) => s.port === options.port)
+    targets = [match ?? { host: getDefaultHost(), port: options.port, pid: 0, command: "" }]
+  } else if (options.projectPath) {
+    const projectPath = options.projectPath
+    const matching = discovered.filter(
+      (s) => s.projectRoot && isSameProject(s.projectRoot, projectPath)
+    )
+    if (matching.length > 0) targets = matching
+  }
+
+  const servers = await Promise.all(
+    targets.map(async (server) => ({ ...server, tools: await listNextJsTools(server.port, server.host) }))
+  )
+
+  return {
+    servers,
+    docs: resolveDocsLocation(options.projectPath || process.cwd()),
+  }
+}
+
+/** Render the runtime context as a markdown section for a prompt. */
+export function describeRuntimeContext({ servers, docs }: RuntimeContext): string {
+  const lines: string[] = ["## Current environment", ""]
+
+  const reachable = servers.filter((s) => s.tools.length > 0)
+  if (reachable.length === 0) {
+    lines.push(
+      "- No running Next.js 16+ dev server with MCP enabled was found. Ask the user to start one (`npm run dev`) or for its port, then call `nextjs_index` with that port."
+    )
+  } else {
+    for (const server of reachable) {
+      lines.push(
+        `- Dev server on port ${server.port}${server.pid ? ` (pid ${server.pid})` : ""}${
+          server.projectRoot ? ` for \`${server.projectRoot}\`` : ""
+        }. Runtime tools (call via \`nextjs_call\` with port=${server.port}): ${server.tools
+          .map((t) => `\`${t.name}\``)
+          .join(", ")}`
+      )
+    }
+  }
+
+  if (docs.bundled) {
+    lines.push(
+      `- Next.js ${docs.nextVersion ?? "(version unknown)"}: version-accurate docs are at \`${docs.docsDir}\`${
+        docs.docsAvailable ? "" : " (not found — install dependencies first)"
+      }. Read them instead of relying on memory.`
+    )
+  } else {
+    lines.push(
+      `- Next.js ${docs.nextVersion ?? "was not detected"}${
+        docs.nextVersion ? " does not bundle docs" : ""
+      }. Use https://nextjs.org/docs and consider upgrading with \`npx @next/codemod@latest upgrade latest\`.`
+    )
+  }
+
+  return lines.join("\n")
+}
+
+/** Pick the first tool name that exists on any server, for tailoring steps. */
+export function findToolName(context: RuntimeContext, candidates: string[]): string | null {
+  for (const candidate of candidates) {
+    if (context.servers.some((s) => s.tools.some((t) => t.name === candidate))) {
+      return candidate
+    }
+  }
+  return null
+}
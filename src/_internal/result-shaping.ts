@@ -0,0 +1,212 @@
+import { randomUUID } from "node:crypto"
+
+// Keeps runtime tool results within a token budget. Route lists, logs and
+// error dumps from big apps can run to hundreds of KB; instead of passing them
+// through whole, results over budget are shaped: long arrays keep their head
+// and a count, stack traces are collapsed, long strings are cut. The full
+// result is kept for a while under a handle, so the agent can page through it
+// with a cursor.
+
+export interface Truncation {
+  // Estimated size of the full result and of what was returned, in tokens
+  originalTokens: number
+  returnedTokens: number
+  // Pass to nextjs_call as `cursor` to read the full result page by page
+  cursor: string
+}
+
+export interface ResultPage {
+  text: string
+  // Character range of the full result this page covers
+  offset: number
+  totalChars: number
+  // null on the last page
+  nextCursor: string | null
+}
+
+// Rough, tokenizer-free estimate; JSON averages about 4 characters per token
+const CHARS_PER_TOKEN = 4
+const STORE_TTL_MS = 15 * 60_000
+const MAX_STORED_RESULTS = 20
+// A batch splits the budget between its calls, but never below this
+export const MIN_TOKENS_PER_RESULT = 500
+
+interface Limits {
+  items: number
+  chars: number
+  frames: number
+}
+
+// Tried in order until the shaped result fits the budget
+const LEVELS: Limits[] = [
+  { items: 50, chars: 4000, frames: 10 },
+  { items: 20, chars: 2000, frames: 5 },
+  { items: 10, chars: 1000, frames: 3 },
+  { items: 5, chars: 500, frames: 2 },
+  { items: 3, chars: 200, frames: 1 },
+  { items: 1, chars: 100, frames: 1 },
+]
+
+const stored = new Map<string, { text: string; createdAt: number }>()
+
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === "string" ? value : JSON.stringify(value) ?? ""
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Keep the first `frames` lines of each run of stack frames (`    at ...`)
+ * and replace the rest with a count.
+ */
+export function collapseStackTraces(text: string, frames: number): string {
+  const lines = text.split("\n")
+  const out: string[] = []
+  let run = 0
+
+  const flush = () => {
+    if (run > frames) out.push(`    ... ${run - frames} more frames`)
+    run = 0
+  }
+
+  for (const line of lines) {
+    if (/^\s+at\s/.test(line)) {
+      if (++run <= frames) out.push(line)
+      continue
+    }
+    flush()
+    out.push(line)
+  }
+  flush()
+  return out.join("\n")
+}
+
+function parseJsonText(text: string): unknown {
+  const trimmed = text.trimStart()
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return undefined
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+function compact(value: unknown, limits: Limits): unknown {
+  if (typeof value === "string") {
+    // Next.js tools return JSON as text content; shape what's inside it
+    const json = parseJsonText(value)
+    if (json !== undefined) return JSON.stringify(compact(json, limits))
+
+    const collapsed = collapseStackTraces(value, limits.frames)
+    if (collapsed.length <= limits.chars) return collapsed
+    return `${collapsed.slice(0, limits.chars)}... [${
+      collapsed.length - limits.chars
+    } more characters]`
+  }
+
+  if (Array.isArray(value)) {
+    const head = value.slice(0, limits.items).map((item) => compact(item, limits))
+    if (value.length <= limits.items) return head
+    return [...head, `... ${value.length - limits.items} more items (${value.length} total)`]
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+    // Objects keyed by route or module can be as long as any array
+    const maxKeys = limits.items * 2
+    const kept = entries.slice(0, maxKeys).map(([key, v]) => [key, compact(v, limits)])
+    if (entries.length > maxKeys) {
+      kept.push(["...", `${entries.length - maxKeys} more keys (${entries.length} total)`])
+    }
+    return Object.fromEntries(kept)
+  }
+
+  return value
+}
+
+/**
+ * The full result as readable text for paging: the text content of an MCP
+ * result (JSON pretty-printed), or the whole result as JSON.
+ */
+function renderFullText(result: unknown): string {
+  const content = (result as { content?: unknown } | undefined)?.content
+  if (Array.isArray(content) && content.every((item) => typeof item?.text === "string")) {
+    return content
+      .map(({ text }: { text: string }) => {
+        const json = parseJsonText(text)
+        return json === undefined ? text : JSON.stringify(json, null, 2)
+      })
+      .join("\n\n")
+  }
+  return JSON.stringify(result, null, 2)
+}
+
+function store(text: string): string {
+  const now = Date.now()
+  for (const [handle, entry] of stored) {
+    if (now - entry.createdAt > STORE_TTL_MS) stored.delete(handle)
+  }
+  while (stored.size >= MAX_STORED_RESULTS) {
+    // Maps iterate in insertion order, so the first key is the oldest
+    stored.delete(stored.keys().next().value!)
+  }
+
+  // The store is shared by every HTTP session; a full UUID keeps one session
+  // from guessing the cursors of another
+  const handle = randomUUID()
+  stored.set(handle, { text, createdAt: now })
+  return handle
+}
+
+/**
+ * Fit a runtime tool result into `maxTokens`. Results within budget are
+ * returned as is; larger ones are shaped, with the full result stored for
+ * paging.
+ */
+export function shapeResult(
+  result: unknown,
+  maxTokens: number
+): { result: unknown; truncation?: Truncation } {
+  const originalTokens = estimateTokens(result)
+  if (originalTokens <= maxTokens) return { result }
+
+  let shaped: unknown = result
+  for (const limits of LEVELS) {
+    shaped = compact(result, limits)
+    if (estimateTokens(shaped) <= maxTokens) break
+  }
+
+  return {
+    result: shaped,
+    truncation: {
+      originalTokens,
+      returnedTokens: estimateTokens(shaped),
+      cursor: `${store(renderFullText(result))}:0`,
+    },
+  }
+}
+
+/**
+ * One page of a stored result, about `maxTokens` long and cut at a line
+ * break where possible. Null when the cursor is unknown or has expired.
+ */
+export function readResultPage(cursor: string, maxTokens: number): ResultPage | null {
+  const [handle, offsetText] = cursor.split(":")
+  const entry = stored.get(handle)
+  const offset = Number(offsetText)
+  if (!entry || Date.now() - entry.createdAt > STORE_TTL_MS) return null
+  if (!Number.isInteger(offset) || offset < 0 || offset > entry.text.length) return null
+
+  const { text } = entry
+  let end = Math.min(offset + maxTokens * CHARS_PER_TOKEN, text.length)
+  if (end < text.length) {
+    const lineBreak = text.lastIndexOf("\n", end)
+    if (lineBreak > offset) end = lineBreak + 1
+  }
+
+  return {
+    text: text.slice(offset, end),
+    offset,
+    totalChars: text.length,
+    nextCursor: end < text.length ? `${handle}:${end}` : null,
+  }
+}
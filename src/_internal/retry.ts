@@ -0,0 +1,106 @@
+import { setTimeout as sleep } from "node:timers/promises"
+import { McpHttpError } from "./nextjs-mcp-session.js"
+
+// Calls made right after the agent edits a file often hit a dev server that
+// is mid-HMR or restarting: the connection is refused or reset, or the server
+// answers 503 for a moment. Those failures are retried with bounded
+// exponential backoff instead of being reported as "server down".
+
+export interface RetryPolicy {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries: number
+  // Delay before the first retry; doubles for each one after it
+  baseDelayMs: number
+}
+
+export interface RetryAttempt {
+  // 1 for the first retry
+  attempt: number
+  delayMs: number
+  // What failed, e.g. "connection refused" or "HTTP 503"
+  reason: string
+}
+
+/**
+ * How a failure relates to the request: "not-delivered" when the server
+ * certainly didn't act on it (safe to retry anything), "maybe-delivered" when
+ * it may have (only idempotent requests are retried).
+ */
+export type TransientFailure = { reason: string; delivery: "not-delivered" | "maybe-delivered" }
+
+const MAX_DELAY_MS = 5000
+
+// Socket errors from undici, found on the `cause` of fetch's TypeError
+const CONNECTION_ERRORS: Record<string, TransientFailure> = {
+  ECONNREFUSED: { reason: "connection refused", delivery: "not-delivered" },
+  ECONNRESET: { reason: "connection reset", delivery: "maybe-delivered" },
+  EPIPE: { reason: "connection closed", delivery: "maybe-delivered" },
+  UND_ERR_SOCKET: { reason: "connection closed", delivery: "maybe-delivered" },
+  UND_ERR_CLOSED: { reason: "connection closed", delivery: "maybe-delivered" },
+}
+
+/** Why a request failed transiently; null for failures that are not transient. */
+export function classifyTransientFailure(error: unknown): TransientFailure | null {
+  if (error instanceof McpHttpError) {
+    // 503: the server (or a proxy in front of it) isn't taking requests yet
+    if (error.status === 503) return { reason: "HTTP 503", delivery: "not-delivered" }
+    if (error.status === 502 || error.status === 504) {
+      return { reason: `HTTP ${error.status}`, delivery: "maybe-delivered" }
+    }
+    return null
+  }
+
+  if (error instanceof TypeError && error.message.includes("fetch failed")) {
+    const code = (error.cause as { code?: string } | undefined)?.code
+    return (
+      (code && CONNECTION_ERRORS[code]) || {
+        reason: "connection failed",
+        delivery: "maybe-delivered",
+      }
+    )
+  }
+
+  return null
+}
+
+/** Backoff before retry `attempt` (1-based): doubling, capped, with jitter. */
+export function retryDelay(attempt: number, { baseDelayMs }: RetryPolicy): number {
+  const delay = Math.min(baseDelayMs * 2 ** (attempt - 1), MAX_DELAY_MS)
+  // Jitter keeps several clients from hammering a restarting server in step
+  return Math.round(delay * (0.5 + Math.random() / 2))
+}
+
+/**
+ * Run `fn`, retrying transient failures per `policy`. Non-idempotent requests
+ * are only retried when they never reached the server. Aborting `signal`
+ * stops waiting between attempts.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  {
+    policy,
+    idempotent,
+    signal,
+    onRetry,
+  }: {
+    policy: RetryPolicy
+    idempotent: boolean
+    signal?: AbortSignal
+    onRetry?: (attempt: RetryAttempt, error: unknown) => void
+  }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (error) {
+      const failure = classifyTransientFailure(error)
+      const retryable =
+        failure && (idempotent || failure.delivery === "not-delivered") && !signal?.aborted
+      if (!retryable || attempt >= policy.maxRetries) throw error
+
+      const delayMs = retryDelay(attempt + 1, policy)
+      onRetry?.({ attempt: attempt + 1, delayMs, reason: failure.reason }, error)
+      await sleep(delayMs, undefined, { signal })
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import fs from "node:fs/promises"
+import net from "node:net"
+import path from "node:path"
+import tls from "node:tls"
+import { exec } from "child_process"
+import { promisify } from "util"
+import { findProcess } from "./find-process-import.js"
+import { readNextVersion } from "./project-root.js"
+import type { ProcNetOptions } from "./proc-net.js"
+import type { NextJsMCPServerInfo } from "./nextjs-mcp-session.js"
+
+const execAsync = promisify(exec)
+
+// What kind of Next.js dev server is on the other end: version, bundler,
+// TLS, routers and uptime. Agents use it to pick the right docs and tools
+// instead of guessing or asking the user. Every field is best effort and null
+// when it can't be determined.
+
+export interface ServerFingerprint {
+  nextVersion: string | null
+  bundler: "turbopack" | "webpack" | null
+  https: boolean
+  // Only for HTTPS: whether Node.js rejects the certificate as untrusted, as
+  // with `next dev --experimental-https`
+  selfSignedCert: boolean | null
+  // Routers the project uses, from its app/ and pages/ directories
+  routers: Array<"app" | "pages">
+  uptimeSeconds: number | null
+}
+
+export interface FingerprintTarget {
+  host: string
+  port: number
+  protocol: "http" | "https"
+  // Unknown for servers probed by port rather than found as a process
+  pid?: number
+  command?: string
+  projectRoot?: string
+  // From the MCP handshake, when the server completed one
+  serverInfo?: NextJsMCPServerInfo
+}
+
+// Linux USER_HZ; the unit of process start times in /proc/<pid>/stat
+const CLOCK_TICKS_PER_SECOND = 100
+const TLS_CHECK_TIMEOUT_MS = 1000
+// Errors Node.js reports for certificates it doesn't trust
+const UNTRUSTED_CERT_CODES = new Set([
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+])
+
+/**
+ * The Next.js version: from the MCP handshake when the server names itself
+ * Next.js, else from the `next-server (v16.0.0)` process title, else from the
+ * project's installed (or declared) next package.
+ */
+async function detectNextVersion(target: FingerprintTarget): Promise<string | null> {
+  const { serverInfo } = target
+  if (serverInfo && /^next(\.js)?$/i.test(serverInfo.name)) return serverInfo.version
+
+  const fromTitle = target.command?.match(/next-server \(v(\d+\.\d+\.\d+[^)]*)\)/)
+  if (fromTitle) return fromTitle[1]
+
+  return target.projectRoot ? readNextVersion(target.projectRoot) : null
+}
+
+/**
+ * Turbopack or webpack: an explicit flag on the command line of the server,
+ * its parent (the `next` CLI) or the project's dev script wins; otherwise the
+ * default for the version (Turbopack since Next.js 16).
+ */
+export function detectBundler(
+  commands: string[],
+  nextVersion: string | null
+): ServerFingerprint["bundler"] {
+  if (commands.some((command) => /--webpack\b/.test(command))) return "webpack"
+  if (commands.some((command) => /--turbo(pack)?\b/.test(command))) return "turbopack"
+
+  const major = nextVersion ? parseInt(nextVersion, 10) : NaN
+  if (Number.isNaN(major)) return null
+  return major >= 16 ? "turbopack" : "webpack"
+}
+
+/**
+ * The command line of a process's parent, or "" if it can't be found. Pass
+ * `ppid` when it is already known to skip looking up the process itself.
+ */
+export async function parentCommand(pid: number, ppid?: number): Promise<string> {
+  try {
+    ppid ??= (await findProcess("pid", pid))[0]?.ppid
+    if (!ppid) return ""
+    const [parent] = await findProcess("pid", ppid)
+    return parent?.cmd ?? ""
+  } catch {
+    return ""
+  }
+}
+
+async function devScript(projectRoot: string | undefined): Promise<string> {
+  if (!projectRoot) return ""
+  try {
+    const pkg = JSON.parse(await fs.readFile(path.join(projectRoot, "package.json"), "utf8"))
+    return typeof pkg.scripts?.dev === "string" ? pkg.scripts.dev : ""
+  } catch {
+    return ""
+  }
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dir)).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+export async function detectRouters(
+  projectRoot: string | undefined
+): Promise<ServerFingerprint["routers"]> {
+  if (!projectRoot) return []
+  const routers: ServerFingerprint["routers"] = []
+  for (const router of ["app", "pages"] as const) {
+    const dirs = [router, path.join("src", router)].map((dir) => path.join(projectRoot, dir))
+    if ((await Promise.all(dirs.map(isDirectory))).some(Boolean)) routers.push(router)
+  }
+  return routers
+}
+
+/**
+ * Parse `ps -o etime` output: [[dd-]hh:]mm:ss.
+ */
+export function parseElapsedTime(etime: string): number | null {
+  const match = etime.trim().match(/^(?:(?:(\d+)-)?(\d+):)?(\d+):(\d+)$/)
+  if (!match) return null
+  const [, days = "0", hours = "0", minutes, seconds] = match
+  return ((Number(days) * 24 + Number(hours)) * 60 + Number(minutes)) * 60 + Number(seconds)
+}
+
+/**
+ * Seconds since the process started: from /proc/<pid>/stat on Linux (no
+ * external binaries needed), else from `ps`.
+ */
+export async function getProcessUptime(
+  pid: number | undefined,
+  { procRoot = "/proc" }: ProcNetOptions = {}
+): Promise<number | null> {
+  if (!pid) return null
+
+  try {
+    const stat = await fs.readFile(path.join(procRoot, String(pid), "stat"), "utf8")
+    const systemUptime = parseFloat(await fs.readFile(path.join(procRoot, "uptime"), "utf8"))
+    // The command name (field 2) may contain spaces; fields after it start at
+    // field 3 (state), and starttime is field 22
+    const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ")
+    const startTicks = Number(fields[22 - 3])
+    if (Number.isFinite(startTicks) && Number.isFinite(systemUptime)) {
+      return Math.max(0, Math.round(systemUptime - startTicks / CLOCK_TICKS_PER_SECOND))
+    }
+  } catch {
+    // Not Linux, or the process is gone
+  }
+
+  if (process.platform === "win32") return null
+  try {
+    const { stdout } = await execAsync(`ps -o etime= -p ${pid}`)
+    return parseElapsedTime(stdout)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether an HTTPS server's certificate is one Node.js doesn't trust. Null
+ * when the TLS handshake fails for another reason.
+ */
+export function checkSelfSignedCert(host: string, port: number): Promise<boolean | null> {
+  return new Promise((resolve) => {
+    const socket = tls.connect({
+      host,
+      port,
+      // SNI must be a hostname, not an IP address
+      ...(!net.isIP(host) && { servername: host }),
+      rejectUnauthorized: true,
+      timeout: TLS_CHECK_TIMEOUT_MS,
+    })
+    const finish = (result: boolean | null) => {
+      socket.destroy()
+      resolve(result)
+    }
+    socket.once("secureConnect", () => finish(false))
+    socket.once("timeout", () => finish(null))
+    socket.once("error", (error: NodeJS.ErrnoException) =>
+      finish(error.code && UNTRUSTED_CERT_CODES.has(error.code) ? true : null)
+    )
+  })
+}
+
+export async function fingerprintServer(
+  target: FingerprintTarget,
+  options: ProcNetOptions = {}
+): Promise<ServerFingerprint> {
+  const https = target.protocol === "https"
+
+  const [nextVersion, parent, script, routers, uptimeSeconds, selfSignedCert] = await Promise.all([
+    detectNextVersion(target),
+    target.pid ? parentCommand(target.pid) : Promise.resolve(""),
+    devScript(target.projectRoot),
+    detectRouters(target.projectRoot),
+    getProcessUptime(target.pid, options),
+    https ? checkSelfSignedCert(target.host, target.port) : Promise.resolve(null),
+  ] as const)
+
+  return {
+    nextVersion,
+    bundler: detectBundler([target.command ?? "", parent, script], nextVersion),
+    https,
+    selfSignedCert,
+    routers,
+    uptimeSeconds,
+  }
+}
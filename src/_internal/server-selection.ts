@@ -0,0 +1,46 @@
+import type { NextJsServerInfo } from "./nextjs-runtime-manager.js"
+import { isSameProject } from "./project-root.js"
+
+// Picks the dev server a call is meant for when the caller didn't name a
+// port: the only one running, or the one whose project matches the client's
+// roots or the working directory.
+
+export type ServerSelection =
+  | { ok: true; server: NextJsServerInfo; reason: string }
+  | { ok: false; kind: "no-server" | "ambiguous"; candidates: NextJsServerInfo[] }
+
+function matching(servers: NextJsServerInfo[], paths: string[]): NextJsServerInfo[] {
+  return servers.filter((s) => s.projectRoot && paths.some((p) => isSameProject(s.projectRoot!, p)))
+}
+
+export function selectServer(
+  servers: NextJsServerInfo[],
+  { roots, cwd }: { roots: string[]; cwd: string }
+): ServerSelection {
+  if (servers.length === 0) return { ok: false, kind: "no-server", candidates: [] }
+  if (servers.length === 1) {
+    return { ok: true, server: servers[0], reason: "the only running Next.js dev server" }
+  }
+
+  const fromRoots = matching(servers, roots)
+  if (fromRoots.length === 1) {
+    return {
+      ok: true,
+      server: fromRoots[0],
+      reason: `its project (${fromRoots[0].projectRoot}) matches the client's workspace roots`,
+    }
+  }
+
+  // Roots that narrow things down to several servers still beat the cwd
+  const pool = fromRoots.length > 1 ? fromRoots : servers
+  const fromCwd = matching(pool, [cwd])
+  if (fromCwd.length === 1) {
+    return {
+      ok: true,
+      server: fromCwd[0],
+      reason: `its project (${fromCwd[0].projectRoot}) matches the working directory ${cwd}`,
+    }
+  }
+
+  return { ok: false, kind: "ambiguous", candidates: fromCwd.length > 1 ? fromCwd : pool }
+}
@@ -0,0 +1,152 @@
+import {
+  getAllAvailableServers,
+  forgetNextJsServer,
+  type NextJsServerInfo,
+} from "./nextjs-runtime-manager.js"
+import { forgetToolSchemas } from "./tool-args-validation.js"
+import { getConfig } from "./config.js"
+import { log } from "../telemetry/logger.js"
+
+export interface WatchedServer extends NextJsServerInfo {
+  // When the watcher first saw this process on this port (ms since epoch)
+  firstSeen: number
+}
+
+export interface ServerChange {
+  added: WatchedServer[]
+  removed: WatchedServer[]
+  // Same host and port, new process (e.g. `next dev` was restarted)
+  restarted: WatchedServer[]
+  current: WatchedServer[]
+}
+
+type ServerChangeListener = (change: ServerChange) => void
+
+const listeners = new Set<ServerChangeListener>()
+let timer: ReturnType<typeof setInterval> | undefined
+let inflight: Promise<void> | undefined
+// Live registry keyed by serverKey(); undefined until the first poll
+let known: Map<string, WatchedServer> | undefined
+
+function serverKey(server: NextJsServerInfo): string {
+  return `${server.host}:${server.port}`
+}
+
+// Port probing cannot see pids (reported as 0), so only a change between two
+// known pids counts as a restart.
+function isRestart(previous: WatchedServer, next: NextJsServerInfo): boolean {
+  return previous.pid !== 0 && next.pid !== 0 && previous.pid !== next.pid
+}
+
+/**
+ * Re-run discovery once and notify listeners if the set of servers changed.
+ * The first poll only records a baseline. Concurrent callers share one poll.
+ */
+export function pollServers(): Promise<void> {
+  inflight ??= runPoll().finally(() => {
+    inflight = undefined
+  })
+  return inflight
+}
+
+async function runPoll(): Promise<void> {
+  try {
+    const servers = await getAllAvailableServers()
+    const previous = known ?? new Map<string, WatchedServer>()
+    const isBaseline = !known
+    const now = Date.now()
+
+    const next = new Map<string, WatchedServer>()
+    const added: WatchedServer[] = []
+    const restarted: WatchedServer[] = []
+
+    for (const server of servers) {
+      const key = serverKey(server)
+      const before = previous.get(key)
+
+      if (before && !isRestart(before, server)) {
+        // Keep firstSeen; port probing reports no pid/command, so keep the known ones
+        next.set(key, {
+          ...before,
+          pid: server.pid || before.pid,
+          command: server.command || before.command,
+        })
+        continue
+      }
+
+      const watched = { ...server, firstSeen: now }
+      next.set(key, watched)
+      if (before) restarted.push(watched)
+      else added.push(watched)
+    }
+
+    const removed = Array.from(previous.entries())
+      .filter(([key]) => !next.has(key))
+      .map(([, server]) => server)
+
+    known = next
+    if (isBaseline) return
+
+    for (const server of [...removed, ...restarted]) {
+      forgetNextJsServer(server.port, server.host)
+      forgetToolSchemas(server.port, server.host)
+    }
+
+    if (added.length === 0 && removed.length === 0 && restarted.length === 0) return
+
+    log("Dev servers changed", {
+      added: added.map(serverKey),
+      removed: removed.map(serverKey),
+      restarted: restarted.map(serverKey),
+    })
+
+    const current = Array.from(next.values())
+    for (const listener of listeners) {
+      listener({ added, removed, restarted, current })
+    }
+  } catch (error) {
+    log("Server discovery poll failed", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * Servers seen by the most recent poll. Empty while nothing is watching.
+ */
+export function getWatchedServers(): WatchedServer[] {
+  return known ? Array.from(known.values()) : []
+}
+
+/**
+ * Running dev servers: the live registry while the watcher is running, so
+ * callers don't pay for a discovery pass on every call; a fresh discovery
+ * otherwise.
+ */
+export async function getCurrentServers(): Promise<NextJsServerInfo[]> {
+  return known ? Array.from(known.values()) : getAllAvailableServers()
+}
+
+/**
+ * Subscribe to dev servers appearing, disappearing or restarting.
+ * Discovery is polled only while at least one listener is registered.
+ * Returns an unsubscribe function.
+ */
+export function onServersChanged(listener: ServerChangeListener): () => void {
+  listeners.add(listener)
+
+  if (!timer) {
+    void pollServers()
+    timer = setInterval(() => void pollServers(), getConfig().watch.intervalMs)
+    timer.unref()
+  }
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0 && timer) {
+      clearInterval(timer)
+      timer = undefined
+      known = undefined
+    }
+  }
+}
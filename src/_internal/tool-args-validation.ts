@@ -0,0 +1,238 @@
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv"
+import type {
+  JsonSchemaType,
+  JsonSchemaValidator,
+} from "@modelcontextprotocol/sdk/validation/types.js"
+import {
+  hostForPort,
+  requestNextJsTools,
+  type NextJsMCPTool,
+  type NextJsRequestOptions,
+} from "./nextjs-runtime-manager.js"
+import { DevtoolsError, type DevtoolsErrorCode } from "./error-codes.js"
+
+// Checks nextjs_call arguments against the runtime tool's inputSchema before
+// they reach the dev server. A missing field, a wrong type or a stringified
+// object otherwise only comes back as an opaque `MCP Error:` from Next.js.
+// Tool lists are cached per server for a short while, and compiled
+// validators for as long as the schema object lives.
+
+export type ArgsCheck =
+  // `tool` is missing when the tool list couldn't be fetched
+  | { ok: true; tool?: NextJsMCPTool }
+  | { ok: false; kind: "unknown-tool"; suggestions: string[]; available: string[] }
+  | { ok: false; kind: "invalid-args"; problems: string[] }
+  // The server can't be reached, so the call can't be made either
+  | { ok: false; kind: "unreachable"; error: DevtoolsError }
+
+const TOOL_LIST_TTL_MS = 30_000
+// Tool list failures that fail the call too; on others the call goes through
+const CONNECTION_FAILURES = new Set<DevtoolsErrorCode>([
+  "SERVER_UNREACHABLE",
+  "MCP_ENDPOINT_MISSING",
+])
+const MAX_SUGGESTIONS = 3
+
+const validator = new AjvJsonSchemaValidator()
+const compiled = new WeakMap<object, JsonSchemaValidator<unknown>>()
+const toolLists = new Map<string, { tools: NextJsMCPTool[]; fetchedAt: number }>()
+
+// The server's host (defaults to where discovery last saw the port), and the
+// caller's deadline and cancellation, so checking a call never outlasts it
+type CheckOptions = Pick<NextJsRequestOptions, "host" | "timeoutMs" | "signal">
+
+function serverKey(host: string, port: number): string {
+  return `${host}:${port}`
+}
+
+async function getTools(
+  port: number,
+  refresh: boolean,
+  { host = hostForPort(port), ...options }: CheckOptions
+): Promise<NextJsMCPTool[]> {
+  const key = serverKey(host, port)
+  const cached = toolLists.get(key)
+  if (!refresh && cached && Date.now() - cached.fetchedAt < TOOL_LIST_TTL_MS) return cached.tools
+
+  const tools = await requestNextJsTools(port, host, options)
+  // An empty list means the server couldn't be asked; don't remember that
+  if (tools.length > 0) toolLists.set(key, { tools, fetchedAt: Date.now() })
+  return tools
+}
+
+/** Forget cached tool lists, e.g. after the servers changed. */
+export function clearToolSchemaCache(): void {
+  toolLists.clear()
+}
+
+/** Forget the cached tool list of a server that stopped or restarted. */
+export function forgetToolSchemas(port: number, host: string): void {
+  toolLists.delete(serverKey(host, port))
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Names closest to `name`, best first: names containing it (or contained in
+ * it) before the rest, then by edit distance. Names too far off to be a typo
+ * are left out.
+ */
+export function closestNames(
+  name: string,
+  candidates: string[],
+  limit = MAX_SUGGESTIONS
+): string[] {
+  const needle = name.toLowerCase()
+  return candidates
+    .map((candidate) => {
+      const lower = candidate.toLowerCase()
+      const contains = lower.includes(needle) || needle.includes(lower)
+      return { candidate, contains, distance: editDistance(needle, lower) }
+    })
+    .filter(
+      ({ contains, distance, candidate }) =>
+        contains || distance <= Math.max(2, Math.floor(Math.max(name.length, candidate.length) / 2))
+    )
+    .sort((a, b) => Number(b.contains) - Number(a.contains) || a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate)
+}
+
+// Ajv reports `data/filter/status must be string`; agents think in argument
+// names, so that becomes `args.filter.status must be string`
+function formatProblem(problem: string): string {
+  return problem.replace(/^data((?:\/[^\s/]+)*)/, (_, pointer: string) =>
+    ["args", ...pointer.split("/").filter(Boolean)].join(".")
+  )
+}
+
+function fieldAt(args: Record<string, unknown>, path: string): unknown {
+  return path
+    .split(".")
+    .slice(1)
+    .reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], args)
+}
+
+/**
+ * Field-level problems with `args` for a tool's inputSchema; empty when they
+ * are valid or the tool has no schema.
+ */
+export function validateArgs(
+  schema: Record<string, unknown> | undefined,
+  args: Record<string, unknown>
+): string[] {
+  if (!schema) return []
+
+  let validate = compiled.get(schema)
+  if (!validate) {
+    try {
+      validate = validator.getValidator(schema as JsonSchemaType)
+    } catch {
+      // A schema Ajv can't compile is the server's problem; let the call through
+      return []
+    }
+    compiled.set(schema, validate)
+  }
+
+  const result = validate(args)
+  if (result.valid) return []
+
+  let problems = result.errorMessage.split(/, (?=data\b)/).map(formatProblem)
+
+  // Name the unexpected keys, which Ajv's message leaves out
+  const properties = schema.properties as Record<string, unknown> | undefined
+  const unexpected = properties ? Object.keys(args).filter((key) => !(key in properties)) : []
+  if (schema.additionalProperties === false && unexpected.length > 0) {
+    const known = Object.keys(properties!)
+    problems = problems.filter((problem) => problem !== "args must NOT have additional properties")
+    for (const key of unexpected) {
+      const [suggestion] = closestNames(key, known, 1)
+      problems.push(
+        `args.${key} is not a known argument${suggestion ? ` (did you mean '${suggestion}'?)` : ""}`
+      )
+    }
+  }
+
+  // A stringified object, e.g. {"filter": "{\"status\": 500}"}
+  return problems.map((problem) => {
+    const match = problem.match(/^(args(?:\.\S+)?) must be (object|array)$/)
+    const value = match && fieldAt(args, match[1])
+    if (typeof value !== "string") return problem
+    try {
+      JSON.parse(value)
+      return `${problem} (got a JSON string; pass the ${match![2]} itself, not a string)`
+    } catch {
+      return problem
+    }
+  })
+}
+
+/**
+ * Whether calling a tool twice is harmless, so a call that may have reached
+ * the server can be retried. Tools say so with MCP annotations; Next.js names
+ * its read-only tools get_*.
+ */
+export function isIdempotentTool(tool: NextJsMCPTool): boolean {
+  const { readOnlyHint, idempotentHint } = tool.annotations ?? {}
+  return Boolean(readOnlyHint || idempotentHint) || /^get_/.test(tool.name)
+}
+
+/**
+ * Check a call against the server's tools. A server that can't be reached
+ * fails the check, and a timeout or cancellation is thrown as is, so the call
+ * isn't sent after its deadline; other tool list failures pass the check, so
+ * validation never blocks a call the server might accept.
+ */
+export async function checkToolCall(
+  port: number,
+  toolName: string,
+  args: Record<string, unknown>,
+  options: CheckOptions = {}
+): Promise<ArgsCheck> {
+  let tools: NextJsMCPTool[]
+  let tool: NextJsMCPTool | undefined
+  try {
+    tools = await getTools(port, false, options)
+    tool = tools.find((t) => t.name === toolName)
+    if (!tool && tools.length > 0) {
+      // The server may have restarted with a different tool set
+      tools = await getTools(port, true, options)
+      tool = tools.find((t) => t.name === toolName)
+    }
+  } catch (error) {
+    if (options.signal?.aborted) throw error
+    if (error instanceof DevtoolsError && error.code === "UPSTREAM_TIMEOUT") throw error
+    if (error instanceof DevtoolsError && CONNECTION_FAILURES.has(error.code)) {
+      return { ok: false, kind: "unreachable", error }
+    }
+    return { ok: true }
+  }
+  if (tools.length === 0) return { ok: true }
+
+  if (!tool) {
+    const available = tools.map((t) => t.name)
+    return {
+      ok: false,
+      kind: "unknown-tool",
+      suggestions: closestNames(toolName, available),
+      available,
+    }
+  }
+
+  const problems = validateArgs(tool.inputSchema, args)
+  return problems.length > 0 ? { ok: false, kind: "invalid-args", problems } : { ok: true, tool }
+}
@@ -0,0 +1,49 @@
+import { z } from "zod"
+import type { JsonRpcNotification } from "./mcp-response-parser.js"
+import { ERROR_CODES } from "./error-codes.js"
+
+/**
+ * What every tool handler returns: typed structured content (validated by
+ * clients against the tool's outputSchema) plus a short readable summary.
+ * index.ts turns this into an MCP CallToolResult.
+ */
+export interface ToolResult<T extends object = Record<string, unknown>> {
+  summary: string
+  structuredContent: T
+  isError?: boolean
+}
+
+export function toolResult<T extends object>(summary: string, structuredContent: T): ToolResult<T> {
+  return { summary, structuredContent }
+}
+
+export function toolError<T extends object>(summary: string, structuredContent: T): ToolResult<T> {
+  return { summary, structuredContent, isError: true }
+}
+
+/** Per-call context index.ts passes to tool handlers alongside their arguments. */
+export interface ToolContext {
+  // Aborted when the client cancels the call (notifications/cancelled)
+  signal?: AbortSignal
+  // Set when the client asked for progress notifications about this call
+  progressToken?: string | number
+  // Relays notifications a dev server emits while handling the call
+  onNotification?: (notification: JsonRpcNotification) => void
+  // Local paths of the client's workspace roots, asked for on demand
+  listRoots?: () => Promise<string[]>
+}
+
+// Failures still carry structured content, so every outputSchema that can fail
+// includes these fields.
+export const errorOutputShape = {
+  error: z.string().optional().describe("What went wrong (only present when isError is true)"),
+  code: z
+    .enum(ERROR_CODES)
+    .optional()
+    .describe("Stable error code to branch on, e.g. NO_SERVER_FOUND or UPSTREAM_TIMEOUT"),
+  hint: z.string().optional().describe("How to recover from the error"),
+  details: z
+    .record(z.string(), z.unknown())
+    .optional()
+    .describe("The data that triggered the error, e.g. the port, status or version"),
+}
@@ -0,0 +1,44 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js"
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type {
+  LoggingMessageNotification,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js"
+import type { JsonRpcNotification } from "./mcp-response-parser.js"
+
+/**
+ * Relay what a dev server reports while a tool call runs: progress goes back
+ * to the caller under its own progress token (only if it sent one), logs go
+ * out as MCP log messages, filtered by the session's logging/setLevel.
+ */
+export function relayUpstreamNotification(
+  server: Pick<Server, "sendLoggingMessage">,
+  extra: Pick<RequestHandlerExtra<ServerRequest, ServerNotification>, "sendNotification" | "sessionId">,
+  progressToken: string | number | undefined
+) {
+  return (notification: JsonRpcNotification) => {
+    if (notification.method === "notifications/progress" && progressToken !== undefined) {
+      const { progress, total, message } = notification.params ?? {}
+      if (typeof progress !== "number") return
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress,
+            ...(typeof total === "number" && { total }),
+            ...(typeof message === "string" && { message }),
+          },
+        })
+        .catch(() => {})
+    } else if (notification.method === "notifications/message" && notification.params) {
+      server
+        .sendLoggingMessage(
+          notification.params as LoggingMessageNotification["params"],
+          extra.sessionId
+        )
+        .catch(() => {})
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import { z } from "zod"
+
+export interface JSONSchema {
+  type?: string | string[]
+  description?: string
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+  additionalProperties?: boolean | JSONSchema
+  items?: JSONSchema | JSONSchema[]
+  minItems?: number
+  maxItems?: number
+  enum?: unknown[]
+  const?: unknown
+  anyOf?: JSONSchema[]
+  allOf?: JSONSchema[]
+  default?: unknown
+  format?: string
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  multipleOf?: number
+}
+
+/**
+ * Convert a tool's input shape (the `inputSchema` record every tool exports)
+ * into an object JSON Schema with `required` populated.
+ */
+export function zodShapeToJsonSchema(shape: Record<string, z.ZodTypeAny>): JSONSchema {
+  return zodSchemaToJsonSchema(z.object(shape))
+}
+
+/**
+ * Convert a zod schema to JSON Schema describing the values a client may send.
+ * Transforms and refinements describe their input side (a refinement cannot be
+ * expressed in JSON Schema, so only its base type is kept).
+ */
+export function zodSchemaToJsonSchema(zodSchema: z.ZodTypeAny): JSONSchema {
+  const schema = convert(zodSchema)
+  const description = zodSchema.description
+  return description ? { ...schema, description } : schema
+}
+
+function convert(zodSchema: z.ZodTypeAny): JSONSchema {
+  const def = zodSchema._def
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return convertString(def as z.ZodStringDef)
+
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(def as z.ZodNumberDef)
+
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: "integer" }
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" }
+
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time" }
+
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" }
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral: {
+      const value = (def as z.ZodLiteralDef).value
+      return value === null ? { type: "null" } : { type: typeof value, const: value }
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: [...(def as z.ZodEnumDef).values] }
+
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum: {
+      const values = Object.entries((def as z.ZodNativeEnumDef).values as Record<string, unknown>)
+        // Numeric TS enums map values back to names; keep only the real values
+        .filter(([key]) => Number.isNaN(Number(key)))
+        .map(([, value]) => value)
+      const types = Array.from(new Set(values.map((v) => typeof v)))
+      return { type: types.length === 1 ? types[0] : types, enum: values }
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const arrayDef = def as z.ZodArrayDef
+      const schema: JSONSchema = { type: "array", items: zodSchemaToJsonSchema(arrayDef.type) }
+      if (arrayDef.exactLength) {
+        schema.minItems = arrayDef.exactLength.value
+        schema.maxItems = arrayDef.exactLength.value
+      }
+      if (arrayDef.minLength) schema.minItems = arrayDef.minLength.value
+      if (arrayDef.maxLength) schema.maxItems = arrayDef.maxLength.value
+      return schema
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodTuple: {
+      const tupleDef = def as z.ZodTupleDef
+      const items = tupleDef.items.map((item: z.ZodTypeAny) => zodSchemaToJsonSchema(item))
+      const schema: JSONSchema = { type: "array", items, minItems: items.length }
+      if (!tupleDef.rest) schema.maxItems = items.length
+      return schema
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(def as z.ZodObjectDef)
+
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return {
+        type: "object",
+        additionalProperties: zodSchemaToJsonSchema((def as z.ZodRecordDef).valueType),
+      }
+
+    case z.ZodFirstPartyTypeKind.ZodMap:
+      return { type: "object", additionalProperties: zodSchemaToJsonSchema(def.valueType) }
+
+    case z.ZodFirstPartyTypeKind.ZodSet:
+      return { type: "array", items: zodSchemaToJsonSchema(def.valueType) }
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+      const options: z.ZodTypeAny[] = def.options
+      return { anyOf: options.map((option) => zodSchemaToJsonSchema(option)) }
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return {
+        allOf: [zodSchemaToJsonSchema(def.left), zodSchemaToJsonSchema(def.right)],
+      }
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodSchemaToJsonSchema(def.innerType)
+
+    case z.ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = zodSchemaToJsonSchema(def.innerType)
+      if (typeof inner.type === "string" && !inner.enum && inner.const === undefined) {
+        return { ...inner, type: [inner.type, "null"] }
+      }
+      return { anyOf: [inner, { type: "null" }] }
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodSchemaToJsonSchema(def.innerType), default: def.defaultValue() }
+
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return zodSchemaToJsonSchema(def.innerType)
+
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return zodSchemaToJsonSchema(def.type)
+
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      // transform/refine/preprocess: describe what the client sends
+      return zodSchemaToJsonSchema((def as z.ZodEffectsDef).schema)
+
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return zodSchemaToJsonSchema(def.in)
+
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return zodSchemaToJsonSchema(def.getter())
+
+    case z.ZodFirstPartyTypeKind.ZodAny:
+    case z.ZodFirstPartyTypeKind.ZodUnknown:
+      return {}
+
+    default:
+      throw new Error(`Unsupported zod type for JSON Schema conversion: ${def.typeName}`)
+  }
+}
+
+function convertString(def: z.ZodStringDef): JSONSchema {
+  const schema: JSONSchema = { type: "string" }
+
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case "min":
+        schema.minLength = check.value
+        break
+      case "max":
+        schema.maxLength = check.value
+        break
+      case "length":
+        schema.minLength = check.value
+        schema.maxLength = check.value
+        break
+      case "regex":
+        schema.pattern = check.regex.source
+        break
+      case "email":
+        schema.format = "email"
+        break
+      case "url":
+        schema.format = "uri"
+        break
+      case "uuid":
+        schema.format = "uuid"
+        break
+      case "datetime":
+        schema.format = "date-time"
+        break
+      case "date":
+        schema.format = "date"
+        break
+      case "time":
+        schema.format = "time"
+        break
+      case "ip":
+        schema.format = check.version === "v6" ? "ipv6" : "ipv4"
+        break
+    }
+  }
+
+  return schema
+}
+
+function convertNumber(def: z.ZodNumberDef): JSONSchema {
+  const schema: JSONSchema = { type: "number" }
+
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case "int":
+        schema.type = "integer"
+        break
+      case "min":
+        if (check.inclusive) schema.minimum = check.value
+        else schema.exclusiveMinimum = check.value
+        break
+      case "max":
+        if (check.inclusive) schema.maximum = check.value
+        else schema.exclusiveMaximum = check.value
+        break
+      case "multipleOf":
+        schema.multipleOf = check.value
+        break
+    }
+  }
+
+  return schema
+}
+
+function convertObject(def: z.ZodObjectDef): JSONSchema {
+  const shape = def.shape()
+  const properties: Record<string, JSONSchema> = {}
+  const required: string[] = []
+
+  for (const [key, value] of Object.entries(shape)) {
+    properties[key] = zodSchemaToJsonSchema(value)
+    if (!value.isOptional()) {
+      required.push(key)
+    }
+  }
+
+  const schema: JSONSchema = { type: "object", properties }
+  if (required.length > 0) schema.required = required
+
+  const catchall = def.catchall
+  if (catchall && catchall._def.typeName !== z.ZodFirstPartyTypeKind.ZodNever) {
+    schema.additionalProperties = zodSchemaToJsonSchema(catchall)
+  } else if (def.unknownKeys === "strict") {
+    schema.additionalProperties = false
+  }
+
+  return schema
+}
@@ -4,8 +4,20 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode,
+  type CallToolRequest,
+  type CallToolResult,
+  type Tool,
 } from "@modelcontextprotocol/sdk/types.js"
-import { z } from "zod"
+import type { z } from "zod"
 import { spawn } from "child_process"
 import { fileURLToPath } from "url"
 import { dirname, join } from "path"
@@ -13,6 +25,22 @@ import pkg from "../package.json" with { type: "json" }
 import type { McpToolName } from "./telemetry/mcp-telemetry-tracker.js"
 import { queueEvent, getSessionAggregationJSON } from "./telemetry/event-queue.js"
 import { log } from "./telemetry/logger.js"
+import { parseCliOptions } from "./_internal/cli-options.js"
+import { ConfigError, getConfig, isToolEnabled } from "./_internal/config.js"
+import { startHttpTransport } from "./_internal/http-transport.js"
+import { zodShapeToJsonSchema } from "./_internal/zod-to-json-schema.js"
+import { DevtoolsError, errorFields } from "./_internal/error-codes.js"
+import type { ToolContext, ToolResult } from "./_internal/tool-result.js"
+import { relayUpstreamNotification } from "./_internal/upstream-notifications.js"
+import { listClientRootPaths } from "./_internal/client-roots.js"
+import { onServersChanged, type ServerChange } from "./_internal/server-watcher.js"
+import {
+  getDynamicTools,
+  findDynamicTool,
+  callDynamicTool,
+  onDynamicToolsChanged,
+  refreshDynamicToolsAndNotify,
+} from "./_internal/dynamic-tools.js"
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
@@ -22,8 +50,18 @@ import * as nextjsDocs from "./tools/nextjs-docs.js"
 import * as nextjsIndex from "./tools/nextjs_index.js"
 import * as nextjsCall from "./tools/nextjs_call.js"
 
+import * as diagnoseRuntimeErrors from "./prompts/diagnose-runtime-errors.js"
+import * as explainRoute from "./prompts/explain-route.js"
+import * as verifyInBrowser from "./prompts/verify-in-browser.js"
+import * as nextjsServerResources from "./resources/nextjs-servers.js"
+
 const tools = [browserEval, nextjsDocs, nextjsIndex, nextjsCall]
 
+const prompts = [diagnoseRuntimeErrors, explainRoute, verifyInBrowser]
+
+// JSON-RPC error code for unknown resources, per the MCP spec
+const RESOURCE_NOT_FOUND = -32002
+
 const toolNameToTelemetryName: Record<string, McpToolName> = {
   browser_eval: "mcp/browser_eval",
   nextjs_docs: "mcp/nextjs_docs",
@@ -31,51 +69,209 @@ const toolNameToTelemetryName: Record<string, McpToolName> = {
   nextjs_call: "mcp/nextjs_call",
 }
 
-// Type definitions
-interface JSONSchema {
-  type?: string
-  description?: string
-  properties?: Record<string, JSONSchema>
-  items?: JSONSchema
-  enum?: unknown[]
+interface ServerOptions {
+  // Register each upstream Next.js tool as its own MCP tool
+  dynamicTools: boolean
+  // Watch for dev servers in the background for the whole session, not only
+  // while resources are subscribed
+  watch: boolean
 }
 
-// Create server
-const server = new Server(
-  {
-    name: "next-devtools-mcp",
-    version: pkg.version,
-  },
-  {
-    capabilities: {
-      tools: {},
+// Create a server with all handlers registered. stdio uses a single instance;
+// the HTTP transport creates one per client session.
+function createServer(options: ServerOptions): Server {
+  const server = new Server(
+    {
+      name: "next-devtools-mcp",
+      version: pkg.version,
     },
+    {
+      capabilities: {
+        tools: options.dynamicTools ? { listChanged: true } : {},
+        prompts: {},
+        resources: { subscribe: true, listChanged: true },
+        logging: {},
+      },
+    }
+  )
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const { tools: staticTools } = await handleListTools()
+    if (!options.dynamicTools) return { tools: staticTools }
+
+    const upstreamTools = (await getDynamicTools()).map((tool) => ({
+      name: tool.name,
+      description: `[Next.js dev server on port ${tool.port}] ${tool.description ?? tool.upstreamName}`,
+      inputSchema: { type: "object" as const, ...tool.inputSchema },
+    }))
+    return { tools: [...staticTools, ...upstreamTools] }
+  })
+  // extra.signal is aborted when the client sends notifications/cancelled for
+  // the call; it is forwarded so the upstream request is aborted too.
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const progressToken = request.params._meta?.progressToken
+    const context: ToolContext = {
+      signal: extra.signal,
+      progressToken,
+      onNotification: relayUpstreamNotification(server, extra, progressToken),
+      listRoots: () => listClientRootPaths(server, extra.signal),
+    }
+
+    const dynamicTool = options.dynamicTools ? findDynamicTool(request.params.name) : undefined
+    if (!dynamicTool) return handleCallTool(request, context)
+
+    queueEvent({
+      eventName: "NEXT_MCP_TOOL_USAGE",
+      fields: { toolName: "mcp/nextjs_call", invocationCount: 1 },
+    })
+
+    // The upstream result is already an MCP tool result; pass it through.
+    try {
+      const result = await callDynamicTool(dynamicTool, request.params.arguments || {}, context)
+      if (Array.isArray((result as CallToolResult | undefined)?.content)) {
+        return result as CallToolResult
+      }
+      return { content: [{ type: "text", text: JSON.stringify(result) }] }
+    } catch (error) {
+      // Dynamic tools have no outputSchema, so the error fields can go as is
+      const fields = errorFields(error, "UPSTREAM_ERROR")
+      return {
+        content: [
+          { type: "text", text: fields.error },
+          { type: "text", text: JSON.stringify(fields) },
+        ],
+        structuredContent: { ...fields },
+        isError: true,
+      }
+    }
+  })
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: prompts.map((prompt) => ({
+      name: prompt.metadata.name,
+      description: prompt.metadata.description,
+      arguments: Object.entries(prompt.inputSchema).map(([name, zodSchema]) => ({
+        name,
+        description: zodSchema.description,
+        required: !zodSchema.isOptional(),
+      })),
+    })),
+  }))
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params
+
+    const prompt = prompts.find((p) => p.metadata.name === name)
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`)
+    }
+
+    let parsedArgs: Record<string, unknown>
+    try {
+      parsedArgs = parseToolArgs(prompt.inputSchema, args || {})
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message)
+    }
+
+    const text = await (prompt.handler as (args: Record<string, unknown>) => Promise<string>)(
+      parsedArgs
+    )
+
+    return {
+      description: prompt.metadata.description,
+      messages: [{ role: "user", content: { type: "text", text } }],
+    }
+  })
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await nextjsServerResources.listResources(),
+  }))
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: nextjsServerResources.resourceTemplates,
+  }))
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params
+    const text = await nextjsServerResources.readResource(uri)
+    if (text === null) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri })
+    }
+    return { contents: [{ uri, mimeType: "application/json", text }] }
+  })
+
+  // Resource subscriptions are per client session. Unless the background
+  // watcher is enabled, discovery is only polled while at least one session
+  // holds a subscription.
+  const subscriptions = new Set<string>()
+  let stopWatching: (() => void) | undefined
+
+  const notifyServerChange = ({ added, removed, restarted }: ServerChange) => {
+    server.sendResourceListChanged().catch(() => {})
+    if (options.dynamicTools) refreshDynamicToolsAndNotify()
+
+    for (const changed of [...added, ...removed, ...restarted]) {
+      for (const uri of subscriptions) {
+        const target = nextjsServerResources.parseServerResourceUri(uri)
+        if (target?.host === changed.host && target.port === changed.port) {
+          server.sendResourceUpdated({ uri }).catch(() => {})
+        }
+      }
+    }
+  }
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri)
+    stopWatching ??= onServersChanged(notifyServerChange)
+    return {}
+  })
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri)
+    if (subscriptions.size === 0 && stopWatching && !options.watch) {
+      stopWatching()
+      stopWatching = undefined
+    }
+    return {}
+  })
+
+  if (options.watch) {
+    stopWatching = onServersChanged(notifyServerChange)
+  }
+
+  const stopDynamicTools = options.dynamicTools
+    ? onDynamicToolsChanged(() => {
+        server.sendToolListChanged().catch(() => {})
+      })
+    : undefined
+
+  server.onclose = () => {
+    stopWatching?.()
+    stopWatching = undefined
+    stopDynamicTools?.()
   }
-)
 
-// Register tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return server
+}
+
+async function handleListTools() {
   return {
-    tools: tools.map((tool) => ({
+    tools: enabledTools().map((tool) => ({
       name: tool.metadata.name,
       description: tool.metadata.description,
-      inputSchema: {
-        type: "object",
-        properties: Object.entries(tool.inputSchema).reduce((acc, [key, zodSchema]) => {
-          acc[key] = zodSchemaToJsonSchema(zodSchema)
-          return acc
-        }, {} as Record<string, JSONSchema>),
-      },
+      inputSchema: zodShapeToJsonSchema(tool.inputSchema) as Tool["inputSchema"],
+      outputSchema: zodShapeToJsonSchema(tool.outputSchema) as Tool["outputSchema"],
     })),
   }
-})
+}
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function handleCallTool(request: CallToolRequest, context: ToolContext) {
   const { name, arguments: args } = request.params
 
-  const tool = tools.find((t) => t.metadata.name === name)
+  const tool = enabledTools().find((t) => t.metadata.name === name)
   if (!tool) {
-    throw new Error(`Tool not found: ${name}`)
+    const available = enabledTools().map((t) => t.metadata.name)
+    throw new McpError(ErrorCode.InvalidParams, `Tool not found: ${name}`, {
+      code: "UNKNOWN_TOOL",
+      hint: `Available tools: ${available.join(", ")}.`,
+      details: { name, available },
+    })
   }
 
   // Queue telemetry event for later batch sending
@@ -91,61 +287,58 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     queueEvent(event)
   }
 
-  const parsedArgs = parseToolArgs(tool.inputSchema, args || {})
+  let parsedArgs: Record<string, unknown>
+  try {
+    parsedArgs = parseToolArgs(tool.inputSchema, args || {})
+  } catch (error) {
+    if (!(error instanceof DevtoolsError)) throw error
+    // The structured content would not match the tool's outputSchema, so the
+    // error fields only go as JSON text
+    return {
+      content: [
+        { type: "text", text: error.message },
+        { type: "text", text: JSON.stringify(errorFields(error)) },
+      ],
+      isError: true,
+    } satisfies CallToolResult
+  }
 
-  const result = await (tool.handler as (args: Record<string, unknown>) => Promise<string>)(parsedArgs)
+  const result = await (
+    tool.handler as (
+      args: Record<string, unknown>,
+      context: ToolContext
+    ) => Promise<ToolResult<object>>
+  )(parsedArgs, context)
 
+  // Clients that ignore structuredContent still get the full data as JSON text.
   return {
     content: [
-      {
-        type: "text",
-        text: result,
-      },
+      { type: "text", text: result.summary },
+      { type: "text", text: JSON.stringify(result.structuredContent) },
     ],
-  }
-})
+    structuredContent: result.structuredContent as Record<string, unknown>,
+    isError: result.isError,
+  } satisfies CallToolResult
+}
 
-function zodSchemaToJsonSchema(zodSchema: z.ZodTypeAny): JSONSchema {
-  const description = zodSchema._def?.description
+// Built-in tools left after `tools.enabled` / `tools.disabled` in the config
+function enabledTools() {
+  return tools.filter((tool) => isToolEnabled(tool.metadata.name))
+}
 
-  if (zodSchema._def?.typeName === "ZodString") {
-    return { type: "string", description }
-  }
-  if (zodSchema._def?.typeName === "ZodNumber") {
-    return { type: "number", description }
-  }
-  if (zodSchema._def?.typeName === "ZodBoolean") {
-    return { type: "boolean", description }
+// Catch typos in the config's tool lists at startup instead of silently
+// exposing (or hiding) the wrong tools
+function validateToolConfig() {
+  const { enabled = [], disabled } = getConfig().tools
+  const known = tools.map((tool) => tool.metadata.name)
+  const unknown = [...enabled, ...disabled].filter((name) => !known.includes(name))
+  if (unknown.length > 0) {
+    throw new ConfigError(
+      `Unknown tool ${unknown.map((name) => `'${name}'`).join(", ")} in the next-devtools config ` +
+        `(${getConfig().source}). Known tools: ${known.join(", ")}.`,
+      getConfig().source
+    )
   }
-  if (zodSchema._def?.typeName === "ZodArray") {
-    return {
-      type: "array",
-      description,
-      items: zodSchemaToJsonSchema(zodSchema._def.type),
-    }
-  }
-  if (zodSchema._def?.typeName === "ZodObject") {
-    const shape = zodSchema._def.shape()
-    const properties: Record<string, JSONSchema> = {}
-    for (const [key, value] of Object.entries(shape)) {
-      properties[key] = zodSchemaToJsonSchema(value as z.ZodTypeAny)
-    }
-    return { type: "object", description, properties }
-  }
-  if (zodSchema._def?.typeName === "ZodEnum") {
-    return { type: "string", enum: zodSchema._def.values, description }
-  }
-  if (zodSchema._def?.typeName === "ZodOptional") {
-    return zodSchemaToJsonSchema(zodSchema._def.innerType)
-  }
-  if (zodSchema._def?.typeName === "ZodUnion") {
-    const options = zodSchema._def.options
-    if (options.length === 2) {
-      return zodSchemaToJsonSchema(options[0])
-    }
-  }
-
-  return { type: "string", description }
 }
 
 function parseToolArgs(
@@ -160,10 +353,21 @@ function parseToolArgs(
       if (parsed.success) {
         result[key] = parsed.data
       } else {
-        throw new Error(`Invalid argument '${key}': ${parsed.error.message}`)
+        const problems = parsed.error.issues.map((issue) => issue.message).join("; ")
+        throw new DevtoolsError(
+          "INVALID_ARGS",
+          `Invalid argument '${key}': ${problems}`,
+          `Pass '${key}' as described in the input schema.`,
+          { argument: key, value: args[key] }
+        )
       }
     } else if (!zodSchema.isOptional()) {
-      throw new Error(`Missing required argument: ${key}`)
+      throw new DevtoolsError(
+        "INVALID_ARGS",
+        `Missing required argument: ${key}`,
+        `Pass '${key}'; it is required.`,
+        { argument: key }
+      )
     }
   }
 
@@ -171,20 +375,52 @@ function parseToolArgs(
 }
 
 async function main() {
-  const transport = new StdioServerTransport()
-  await server.connect(transport)
+  const options = parseCliOptions(process.argv.slice(2))
+  // Load the project config up front so a bad file fails at startup
+  const config = getConfig()
+  validateToolConfig()
+  if (config.source) log("Loaded config", { source: config.source })
+  const serverOptions: ServerOptions = {
+    dynamicTools: options.dynamicTools,
+    watch: options.watch,
+  }
+
+  let closeTransport: () => Promise<void>
 
-  log('Server started')
+  if (options.transport === "http") {
+    const httpTransport = await startHttpTransport({
+      port: options.port!,
+      host: options.host,
+      authToken: options.authToken,
+      createServer: () => createServer(serverOptions),
+    })
+    closeTransport = () => httpTransport.close()
+
+    // stdout is not an MCP channel in HTTP mode, but keep it clean for
+    // wrappers that capture it; connection details go to stderr.
+    console.error(`next-devtools-mcp listening on ${httpTransport.url}`)
+    if (!options.authToken) {
+      console.error(`Bearer token (generated): ${httpTransport.authToken}`)
+    }
+
+    log('Server started', { transport: "http", url: httpTransport.url })
+  } else {
+    const server = createServer(serverOptions)
+    await server.connect(new StdioServerTransport())
+    closeTransport = () => server.close()
+
+    log('Server started')
+  }
 
   const shutdown = async () => {
     log('Server terminated')
 
-    // Close the MCP server transport before exiting so the host (e.g. Claude
-    // Code) receives a clean EOF on the stdio channel instead of an abrupt
+    // Close the MCP transport before exiting so the host (e.g. Claude Code)
+    // receives a clean EOF on the stdio channel instead of an abrupt
     // disconnect.  Without this the host reports "MCP server failed" even
-    // though the exit code is 0.
+    // though the exit code is 0.  In HTTP mode this closes every session.
     try {
-      await server.close()
+      await closeTransport()
     } catch {
       // Ignore close errors during shutdown
     }
@@ -218,6 +454,11 @@ async function main() {
 }
 
 main().catch((error) => {
-  console.error("Server error:", error)
+  // Config errors already say what to fix; a stack trace only buries that
+  if (error instanceof ConfigError) {
+    console.error(error.message)
+  } else {
+    console.error("Server error:", error)
+  }
   process.exit(1)
 })
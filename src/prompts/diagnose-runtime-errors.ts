@@ -0,0 +1,54 @@
+import { z } from "zod"
+import {
+  gatherRuntimeContext,
+  describeRuntimeContext,
+  findToolName,
+  promptPortSchema,
+} from "../_internal/prompt-context.js"
+
+export const inputSchema = {
+  port: promptPortSchema
+    .optional()
+    .describe("Port of the Next.js dev server to diagnose. Defaults to every discovered server."),
+  project_path: z
+    .string()
+    .optional()
+    .describe("Path to the Next.js project (defaults to current directory)"),
+}
+
+type DiagnoseRuntimeErrorsArgs = {
+  port?: number
+  project_path?: string
+}
+
+export const metadata = {
+  name: "diagnose-runtime-errors",
+  description:
+    "Find and fix the current build, runtime and type errors in the running Next.js app, using live data from the dev server.",
+}
+
+export async function handler({ port, project_path }: DiagnoseRuntimeErrorsArgs): Promise<string> {
+  const context = await gatherRuntimeContext({
+    port,
+    projectPath: project_path,
+  })
+
+  const errorsTool = findToolName(context, ["get_errors"]) ?? "get_errors"
+  const logsTool = findToolName(context, ["get_logs"])
+
+  return `Diagnose and fix the errors in my running Next.js app.
+
+${describeRuntimeContext(context)}
+
+## Steps
+
+1. Call \`nextjs_call\` with toolName="${errorsTool}" on each dev server above to get the current build, runtime and type errors. Do not guess from the source alone.
+${
+  logsTool
+    ? `2. If the errors are unclear, call \`nextjs_call\` with toolName="${logsTool}" and read the dev log for the surrounding browser console and server output.`
+    : "2. If the errors are unclear, look at the dev server's terminal output."
+}
+3. For each error, open the file and line it points to and identify the root cause. Check the version-accurate docs before changing how a Next.js API is used.
+4. Fix the root cause, not the symptom. Keep each change minimal.
+5. Call \`nextjs_call\` with toolName="${errorsTool}" again to confirm the errors are gone, and report what you changed.`
+}
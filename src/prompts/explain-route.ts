@@ -0,0 +1,60 @@
+import { z } from "zod"
+import {
+  gatherRuntimeContext,
+  describeRuntimeContext,
+  findToolName,
+  promptPortSchema,
+} from "../_internal/prompt-context.js"
+
+export const inputSchema = {
+  route: z.string().describe("The route to explain, e.g. '/dashboard/[id]' or '/api/users'."),
+  port: promptPortSchema
+    .optional()
+    .describe("Port of the Next.js dev server. Defaults to every discovered server."),
+  project_path: z
+    .string()
+    .optional()
+    .describe("Path to the Next.js project (defaults to current directory)"),
+}
+
+type ExplainRouteArgs = {
+  route: string
+  port?: number
+  project_path?: string
+}
+
+export const metadata = {
+  name: "explain-route",
+  description:
+    "Explain how a route in the running Next.js app is built: its files, layouts, rendering and data fetching.",
+}
+
+export async function handler({ route, port, project_path }: ExplainRouteArgs): Promise<string> {
+  const context = await gatherRuntimeContext({
+    port,
+    projectPath: project_path,
+  })
+
+  const metadataTool = findToolName(context, ["get_page_metadata", "get_routes"])
+  const projectTool = findToolName(context, ["get_project_metadata"])
+
+  const runtimeSteps = metadataTool
+    ? `1. Call \`nextjs_call\` with toolName="${metadataTool}" to see how the dev server resolves \`${route}\`: which page, layouts and segments it uses.`
+    : `1. Find the files that make up \`${route}\` under \`app/\` (or \`pages/\`), including its layouts, loading and error boundaries.`
+
+  return `Explain the route \`${route}\` in my Next.js app.
+
+${describeRuntimeContext(context)}
+
+## Steps
+
+${runtimeSteps}
+${
+  projectTool
+    ? `2. Call \`nextjs_call\` with toolName="${projectTool}" for the project's router and config if it matters for this route.`
+    : "2. Check next.config and the project structure for settings that affect this route."
+}
+3. Read the route's files and explain, in order: the file and layout hierarchy, whether it renders on the server or the client, how and when it fetches data, how it is cached, and any middleware, redirects or rewrites that apply.
+4. Cite the relevant pages of the version-accurate docs for each convention you mention.
+5. Finish with anything unusual or risky about this route.`
+}
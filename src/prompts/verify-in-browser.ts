@@ -0,0 +1,53 @@
+import { z } from "zod"
+import {
+  gatherRuntimeContext,
+  describeRuntimeContext,
+  findToolName,
+  promptPortSchema,
+} from "../_internal/prompt-context.js"
+
+export const inputSchema = {
+  change: z.string().describe("What changed and how it should look or behave."),
+  path: z
+    .string()
+    .optional()
+    .describe("Path of the page to check, e.g. '/settings'. Defaults to '/'."),
+  port: promptPortSchema
+    .optional()
+    .describe("Port of the Next.js dev server. Defaults to the first discovered server."),
+}
+
+type VerifyInBrowserArgs = {
+  change: string
+  path?: string
+  port?: number
+}
+
+export const metadata = {
+  name: "verify-in-browser",
+  description:
+    "Verify a change in a real browser against the running Next.js dev server, and check for new errors.",
+}
+
+export async function handler({ change, path, port }: VerifyInBrowserArgs): Promise<string> {
+  const context = await gatherRuntimeContext({ port })
+
+  const target = context.servers.find((s) => s.tools.length > 0) ?? context.servers[0]
+  const targetPort = target?.port
+  const pagePath = path ? (path.startsWith("/") ? path : `/${path}`) : "/"
+  const pageUrl = target ? `http://${target.host}:${target.port}${pagePath}` : null
+  const errorsTool = findToolName(context, ["get_errors"]) ?? "get_errors"
+
+  return `Verify this change in the browser: ${change}
+
+${describeRuntimeContext(context)}
+
+## Steps
+
+1. Call \`browser_eval\` to set up the agent-browser CLI and load its usage guide.
+2. Open ${pageUrl ? `\`${pageUrl}\`` : `the page at \`${pagePath}\` on the running dev server`} and take a screenshot.
+3. Exercise the change: interact with the page the way a user would and compare the result with what is expected.
+4. Check the browser console for errors or warnings.
+5. ${targetPort ? `Call \`nextjs_call\` with port=${targetPort} and toolName="${errorsTool}"` : `Call \`nextjs_call\` with toolName="${errorsTool}"`} to make sure the change introduced no build or runtime errors.
+6. Report what you verified, with screenshots, and anything that did not match.`
+}
@@ -0,0 +1,126 @@
+import net from "node:net"
+import type { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js"
+import {
+  getAllAvailableServers,
+  listNextJsTools,
+  detectProtocol,
+  type NextJsServerInfo,
+} from "../_internal/nextjs-runtime-manager.js"
+
+// Each discovered dev server is exposed as two resources:
+//   nextjs://<host>:<port>/info   - port, pid, command, project and URL of the server
+//   nextjs://<host>:<port>/tools  - the runtime MCP tools the server exposes
+// Reads always go back to the runtime manager, so they reflect live state.
+const URI_SCHEME = "nextjs:"
+const RESOURCE_KINDS = ["info", "tools"] as const
+
+type ServerResourceKind = (typeof RESOURCE_KINDS)[number]
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: "nextjs://{host}:{port}/info",
+    name: "Next.js dev server info",
+    description: "Port, PID, command and URL of a running Next.js dev server",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "nextjs://{host}:{port}/tools",
+    name: "Next.js dev server tools",
+    description: "Runtime MCP tools exposed by a running Next.js dev server at /_next/mcp",
+    mimeType: "application/json",
+  },
+]
+
+// IPv6 literals need brackets in a URI authority (`[::1]:3000`)
+function uriAuthority({ host, port }: Pick<NextJsServerInfo, "host" | "port">): string {
+  return `${net.isIPv6(host) ? `[${host}]` : host}:${port}`
+}
+
+export function serverResourceUri(
+  server: Pick<NextJsServerInfo, "host" | "port">,
+  kind: ServerResourceKind
+): string {
+  return `nextjs://${uriAuthority(server)}/${kind}`
+}
+
+export function parseServerResourceUri(
+  uri: string
+): { host: string; port: number; kind: ServerResourceKind } | null {
+  let url: URL
+  try {
+    url = new URL(uri)
+  } catch {
+    return null
+  }
+
+  if (url.protocol !== URI_SCHEME || !url.port) return null
+
+  const kind = url.pathname.replace(/^\//, "")
+  if (!(RESOURCE_KINDS as readonly string[]).includes(kind)) return null
+
+  // URL keeps the brackets of an IPv6 host; servers are listed without them
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1")
+  return { host, port: parseInt(url.port, 10), kind: kind as ServerResourceKind }
+}
+
+function toResources(server: NextJsServerInfo): Resource[] {
+  return [
+    {
+      uri: serverResourceUri(server, "info"),
+      name: `Next.js dev server on port ${server.port}`,
+      description: `Info for the Next.js dev server on port ${server.port} (pid ${server.pid})`,
+      mimeType: "application/json",
+    },
+    {
+      uri: serverResourceUri(server, "tools"),
+      name: `Next.js runtime tools on port ${server.port}`,
+      description: `Runtime MCP tools exposed by the Next.js dev server on port ${server.port}`,
+      mimeType: "application/json",
+    },
+  ]
+}
+
+export async function listResources(): Promise<Resource[]> {
+  const servers = await getAllAvailableServers()
+  return servers.flatMap(toResources)
+}
+
+/**
+ * Read a server resource. Returns null when the URI is not a server resource
+ * or the server it refers to is no longer running.
+ */
+export async function readResource(uri: string): Promise<string | null> {
+  const parsed = parseServerResourceUri(uri)
+  if (!parsed) return null
+
+  const servers = await getAllAvailableServers()
+  const server = servers.find((s) => s.host === parsed.host && s.port === parsed.port)
+  if (!server) return null
+
+  if (parsed.kind === "info") {
+    const protocol = await detectProtocol(server.port, server.host)
+    return JSON.stringify({
+      host: server.host,
+      port: server.port,
+      pid: server.pid,
+      command: server.command,
+      projectRoot: server.projectRoot ?? null,
+      ...(server.container && { container: server.container }),
+      ...(server.otherPorts && { otherPorts: server.otherPorts }),
+      url: `${protocol}://${uriAuthority(server)}`,
+      mcpEndpoint: `${protocol}://${uriAuthority(server)}/_next/mcp`,
+    })
+  }
+
+  const tools = await listNextJsTools(server.port, server.host)
+  return JSON.stringify({
+    host: server.host,
+    port: server.port,
+    toolCount: tools.length,
+    tools: tools.map((t) => ({
+      name: t.name,
+      description: t.description,
+      inputSchema: t.inputSchema,
+    })),
+  })
+}
@@ -5,6 +5,7 @@ import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs"
 import type { TelemetryEvent } from "./telemetry-events.js"
 import { log } from "./logger.js"
 import { getTelemetryDir } from "./telemetry-dir.js"
+import { getConfig } from "../_internal/config.js"
 
 const TELEMETRY_ENDPOINT = "https://telemetry.nextjs.org/api/v1/record"
 const TELEMETRY_DIR = getTelemetryDir()
@@ -130,7 +131,8 @@ class TelemetryStorage {
       payload,
     })
 
-    if (process.env.NEXT_TELEMETRY_DISABLED === "1") {
+    // Disabled by NEXT_TELEMETRY_DISABLED=1 or `telemetry.enabled: false` in the config
+    if (!getConfig().telemetry.enabled) {
       return
     }
 
@@ -1,5 +1,6 @@
 import { z } from "zod"
 import { execSync } from "child_process"
+import { toolResult, type ToolResult } from "../_internal/tool-result.js"
 
 // agent-browser is a standalone CLI (https://github.com/vercel-labs/agent-browser)
 // that performs fast, native browser automation for agents. Rather than embedding
@@ -23,6 +24,22 @@ type BrowserEvalArgs = {
   task?: string
 }
 
+export const outputSchema = {
+  status: z
+    .enum(["use_agent_browser", "install_required"])
+    .describe("Whether agent-browser is ready to use or must be installed first"),
+  tool: z.string().describe("The CLI to run"),
+  version: z.string().nullable().optional().describe("Installed agent-browser version, if known"),
+  instructions: z.array(z.string()).describe("Steps to follow, in order"),
+}
+
+type BrowserEvalOutput = {
+  status: "use_agent_browser" | "install_required"
+  tool: string
+  version?: string | null
+  instructions: string[]
+}
+
 export const metadata = {
   name: "browser_eval",
   description: `Set up and use browser automation for this project via the agent-browser CLI.
@@ -55,11 +72,12 @@ function detectAgentBrowser(): { installed: boolean; version: string | null } {
   return { installed: true, version }
 }
 
-export async function handler({ task }: BrowserEvalArgs): Promise<string> {
+export async function handler({ task }: BrowserEvalArgs): Promise<ToolResult<BrowserEvalOutput>> {
   const { installed, version } = detectAgentBrowser()
 
   if (installed) {
-    return JSON.stringify({
+    const summary = `agent-browser${version ? ` ${version}` : ""} is installed. Run its CLI directly.`
+    return toolResult(summary, {
       status: "use_agent_browser",
       tool: AGENT_BROWSER_PACKAGE,
       version,
@@ -70,11 +88,11 @@ export async function handler({ task }: BrowserEvalArgs): Promise<string> {
         task
           ? `For your task ("${task}"), open the page first, then use the commands from the skill guide.`
           : null,
-      ].filter(Boolean),
+      ].filter((line): line is string => line !== null),
     })
   }
 
-  return JSON.stringify({
+  return toolResult("agent-browser is not installed. Install it, then run its CLI directly.", {
     status: "install_required",
     tool: AGENT_BROWSER_PACKAGE,
     instructions: [
@@ -1,6 +1,8 @@
 import { z } from "zod"
 import fs from "node:fs"
 import path from "node:path"
+import { toolResult, errorOutputShape, type ToolResult } from "../_internal/tool-result.js"
+import type { DevtoolsErrorCode } from "../_internal/error-codes.js"
 
 // Next.js started bundling its full documentation inside the npm package
 // (node_modules/next/dist/docs/**/*.md) and generating an AGENTS.md that points
@@ -26,6 +28,39 @@ type NextjsDocsArgs = {
   project_path?: string
 }
 
+export const outputSchema = {
+  status: z
+    .enum(["use_bundled_docs", "upgrade_required"])
+    .describe("Whether to read the bundled docs or upgrade Next.js first"),
+  nextVersion: z.string().nullable().describe("Detected Next.js version or range"),
+  versionSource: z
+    .enum(["installed", "declared"])
+    .nullable()
+    .describe("Whether the version came from node_modules or package.json"),
+  docsPath: z.string().optional().describe("Bundled docs path, relative to the project"),
+  docsAvailable: z.boolean().optional().describe("Whether the bundled docs exist on disk"),
+  message: z.string().optional(),
+  instructions: z.array(z.string()).describe("Steps to follow, in order"),
+  // upgrade_required is advice rather than a failure, but carries the same
+  // code, hint and details as tool errors
+  code: errorOutputShape.code,
+  hint: errorOutputShape.hint,
+  details: errorOutputShape.details,
+}
+
+type NextjsDocsOutput = {
+  status: "use_bundled_docs" | "upgrade_required"
+  nextVersion: string | null
+  versionSource: "installed" | "declared" | null
+  docsPath?: string
+  docsAvailable?: boolean
+  message?: string
+  instructions: string[]
+  code?: DevtoolsErrorCode
+  hint?: string
+  details?: Record<string, unknown>
+}
+
 export const metadata = {
   name: "nextjs_docs",
   description: `Find the version-accurate Next.js documentation for THIS project.
@@ -84,26 +119,57 @@ function resolveNextVersion(projectPath: string): {
   return { version: null, source: null }
 }
 
-export async function handler({ topic, project_path }: NextjsDocsArgs): Promise<string> {
-  const projectPath = project_path || process.cwd()
+export interface DocsLocation {
+  projectPath: string
+  nextVersion: string | null
+  versionSource: "installed" | "declared" | null
+  // True when the project's Next.js bundles its docs in node_modules
+  bundled: boolean
+  docsDir: string
+  docsAvailable: boolean
+}
+
+// Work out where the version-accurate docs for a project live. Shared with the
+// prompts, which embed the docs path in their instructions.
+export function resolveDocsLocation(projectPath: string): DocsLocation {
   const { version, source } = resolveNextVersion(projectPath)
   const major = parseMajor(version)
 
   // Treat unknown declared versions like "latest"/"canary" as modern.
-  const isModern =
+  const bundled =
     major !== null
       ? major >= BUNDLED_DOCS_MIN_MAJOR
       : /latest|canary|rc|beta/i.test(version ?? "")
 
-  if (isModern) {
-    const docsDir = path.join(projectPath, "node_modules", "next", "dist", "docs")
-    const docsExist = fs.existsSync(docsDir)
-    return JSON.stringify({
+  const docsDir = path.join(projectPath, "node_modules", "next", "dist", "docs")
+  return {
+    projectPath,
+    nextVersion: version,
+    versionSource: source,
+    bundled,
+    docsDir,
+    docsAvailable: bundled && fs.existsSync(docsDir),
+  }
+}
+
+export async function handler({
+  topic,
+  project_path,
+}: NextjsDocsArgs): Promise<ToolResult<NextjsDocsOutput>> {
+  const projectPath = project_path || process.cwd()
+  const { nextVersion: version, versionSource: source, bundled, docsDir, docsAvailable } =
+    resolveDocsLocation(projectPath)
+
+  if (bundled) {
+    const summary = version
+      ? `Read the docs bundled with Next.js ${version} at ${docsDir}.`
+      : `Read the bundled Next.js docs at ${docsDir}.`
+    return toolResult(summary, {
       status: "use_bundled_docs",
       nextVersion: version,
       versionSource: source,
       docsPath: "node_modules/next/dist/docs/",
-      docsAvailable: docsExist,
+      docsAvailable,
       instructions: [
         "Next.js ships its full documentation with the installed package, matching your exact version.",
         `Read the relevant guide directly from \`${docsDir}\` (markdown files mirroring the nextjs.org/docs structure).`,
@@ -111,7 +177,7 @@ export async function handler({ topic, project_path }: NextjsDocsArgs): Promise<
           ? `For "${topic}", search those files, e.g.: grep -ril "${topic.replace(/"/g, "")}" node_modules/next/dist/docs`
           : "Browse the directory or grep it for the API/topic you need.",
         "Do not rely on training-data knowledge of Next.js APIs — this version may differ. Prefer the bundled docs.",
-        ...(docsExist
+        ...(docsAvailable
           ? []
           : [
               "Note: the docs directory was not found. Make sure dependencies are installed (the docs ship inside the `next` package).",
@@ -121,10 +187,18 @@ export async function handler({ topic, project_path }: NextjsDocsArgs): Promise<
   }
 
   // Older Next.js (or no Next.js found): point to the upgrade path.
-  return JSON.stringify({
+  const summary = version
+    ? `Next.js ${version} does not bundle its docs. Upgrade to Next.js ${BUNDLED_DOCS_MIN_MAJOR}+.`
+    : `No Next.js installation found in ${projectPath}.`
+  return toolResult(summary, {
     status: "upgrade_required",
     nextVersion: version,
     versionSource: source,
+    code: version ? "NEXT_VERSION_TOO_OLD" : "NEXT_NOT_FOUND",
+    hint: version
+      ? "Upgrade with 'npx @next/codemod@latest upgrade latest', then call nextjs_docs again."
+      : "Pass project_path pointing at the Next.js project, and make sure its dependencies are installed.",
+    details: { projectPath, nextVersion: version, requiredMajor: BUNDLED_DOCS_MIN_MAJOR },
     message:
       version
         ? `This project is on Next.js ${version}. Version-accurate documentation is bundled with Next.js ${BUNDLED_DOCS_MIN_MAJOR}+ (at node_modules/next/dist/docs/) and surfaced to agents via AGENTS.md.`
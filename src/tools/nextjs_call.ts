@@ -1,24 +1,109 @@
 import { z } from "zod"
-import { callNextJsTool } from "../_internal/nextjs-runtime-manager.js"
+import { callNextJsTool, UpstreamTimeoutError } from "../_internal/nextjs-runtime-manager.js"
+import { mapWithConcurrency } from "../_internal/concurrency.js"
+import { getConfig } from "../_internal/config.js"
+import {
+  MIN_TOKENS_PER_RESULT,
+  readResultPage,
+  shapeResult,
+  type ResultPage,
+  type Truncation,
+} from "../_internal/result-shaping.js"
+import {
+  checkToolCall,
+  isIdempotentTool,
+  type ArgsCheck,
+} from "../_internal/tool-args-validation.js"
+import type { RetryAttempt } from "../_internal/retry.js"
+import { errorFields, type DevtoolsErrorCode, type ErrorFields } from "../_internal/error-codes.js"
+import { selectServer, type ServerSelection } from "../_internal/server-selection.js"
+import { getCurrentServers } from "../_internal/server-watcher.js"
+import {
+  toolResult,
+  toolError,
+  errorOutputShape,
+  type ToolContext,
+  type ToolResult,
+} from "../_internal/tool-result.js"
+
+// "all" fans a call out to every discovered dev server. Ports that don't
+// parse are rejected here, before anything reaches the network.
+const portSchema = z
+  .union([z.literal("all"), z.string(), z.number()])
+  .transform((val) => (val === "all" || typeof val === "number" ? val : parseInt(val, 10)))
+  .pipe(z.union([z.literal("all"), z.number().int().min(1).max(65535)]))
+
+const argsSchema = z.record(z.string(), z.unknown())
+
+const DEFAULT_BATCH_CONCURRENCY = 4
 
 export const inputSchema = {
-  port: z
-    .union([z.string(), z.number()])
-    .transform((val) => (typeof val === "string" ? parseInt(val, 10) : val))
-    .describe("Port number of the Next.js dev server (required)."),
+  port: portSchema
+    .optional()
+    .describe(
+      'Port number of the Next.js dev server, or "all" to call the tool on every running dev server. When omitted, the server is chosen automatically: the only running one, or the one whose project matches your workspace roots or working directory.'
+    ),
 
   toolName: z
     .string()
+    .optional()
     .describe(
-      "Name of the Next.js MCP tool to call (required). Use 'nextjs_index' first to discover available tool names."
+      "Name of the Next.js MCP tool to call. Required unless 'calls' is given. Use 'nextjs_index' first to discover available tool names."
     ),
 
-  args: z
-    .record(z.string(), z.unknown())
+  args: argsSchema
     .optional()
     .describe(
       "Arguments object to pass to the Next.js MCP tool. MUST be an object (e.g., {param: 'value'}), NOT a string. Only provide this parameter if the tool requires arguments - omit it entirely for tools that take no arguments. Use 'nextjs_index' to see the inputSchema for each tool."
     ),
+
+  calls: z
+    .array(
+      z.object({
+        port: portSchema,
+        toolName: z.string(),
+        args: argsSchema.optional(),
+      })
+    )
+    .min(1)
+    .optional()
+    .describe(
+      "Batch form: several tool calls to run concurrently, each {port, toolName, args?}, e.g. get_errors and get_routes on two servers in one go. 'port' may be \"all\". Use instead of port/toolName/args."
+    ),
+
+  concurrency: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      `Batch calls only: how many calls may run at once. Defaults to ${DEFAULT_BATCH_CONCURRENCY}.`
+    ),
+
+  timeoutMs: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Maximum time in milliseconds to wait for the dev server to answer. Defaults to 60000 (configurable with timeouts.callMs or NEXT_DEVTOOLS_CALL_TIMEOUT_MS)."
+    ),
+
+  maxTokens: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Approximate token budget for the result (split between the calls of a batch). Larger results are truncated and return a 'cursor'. Defaults to 10000 (configurable with results.maxTokens or NEXT_DEVTOOLS_MAX_RESULT_TOKENS)."
+    ),
+
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "Read the next page of a truncated result: pass the 'cursor' from 'truncation' (or 'nextCursor' from the previous page). Other arguments except maxTokens are ignored."
+    ),
 }
 
 export const metadata = {
@@ -26,9 +111,25 @@ export const metadata = {
   description: `Call a specific MCP tool on a running Next.js development server.
 
 REQUIREMENTS:
-- Port number of the target Next.js dev server
 - Tool name to execute
+- Port number of the target Next.js dev server (optional: without it the server is picked automatically when only one is running or only one matches your project; 'selectedServer' says which and why, and an ambiguous choice returns the 'candidates' to pick from)
 - Optional arguments object (if the tool requires parameters)
+- Optional timeoutMs (the call gives up and reports timedOut: true if the dev server does not answer in time)
+
+BATCH CALLS:
+- Pass 'calls' (a list of {port, toolName, args}) to run several calls concurrently and get every result in one response
+- Or pass port="all" to call one tool on every running dev server
+- Each entry under 'results' has its own result or error; one failing call does not fail the others
+
+RETRIES:
+- Calls that hit a dev server mid-restart or mid-HMR (connection refused or reset, HTTP 503) are retried with backoff; 'retries' lists them. A result with retries means the server was reloading, not down
+
+ERRORS:
+- Failures carry a stable 'code' (e.g. NO_SERVER_FOUND, SERVER_UNREACHABLE, UPSTREAM_TIMEOUT, UPSTREAM_TOOL_ERROR, INVALID_ARGS), a 'hint' on how to recover and 'details' with the data that triggered them
+
+LARGE RESULTS:
+- Results over the token budget (maxTokens) are shaped: long arrays keep their first items and a count, stack traces are collapsed, long strings are cut
+- The response then includes 'truncation' with a 'cursor'; call 'nextjs_call' with just that cursor to page through the full result
 
 Use 'nextjs_index' first to discover available servers, tools, and their input schemas.
 If 'nextjs_index' auto-discovery fails, ask the user for the port and call 'nextjs_index' again with the 'port' parameter.
@@ -37,6 +138,7 @@ IMPORTANT: When calling tools:
 - The 'args' parameter MUST be an object (e.g., {key: "value"}), NOT a string
 - If a tool doesn't require arguments, OMIT the 'args' parameter entirely - do NOT pass {} or "{}"
 - Check the tool's inputSchema from 'nextjs_index' to see what arguments are required
+- Arguments are checked against that inputSchema before the call; problems come back under 'validationErrors', and an unknown toolName gets the closest names under 'suggestions'
 
 Common Next.js MCP tools include:
 - Error diagnostics (get compilation/runtime errors)
@@ -47,51 +149,402 @@ Common Next.js MCP tools include:
 
 Example usage:
 1. Call 'nextjs_index' to see servers and tools
-2. Call 'nextjs_call' with port=3000, toolName="get_errors" to get errors from server on port 3000`,
+2. Call 'nextjs_call' with port=3000, toolName="get_errors" to get errors from server on port 3000 (or omit port when a single dev server is running)
+3. Call 'nextjs_call' with calls=[{port: 3000, toolName: "get_errors"}, {port: 3001, toolName: "get_errors"}] to check two servers at once`,
 }
 
-type NextjsCallArgs = {
-  port: string | number
+type CallSpec = {
+  port: number | "all"
   toolName: string
   args?: Record<string, unknown>
 }
 
-export async function handler(args: NextjsCallArgs): Promise<string> {
+type NextjsCallArgs = {
+  port?: string | number
+  toolName?: string
+  args?: Record<string, unknown>
+  calls?: CallSpec[]
+  concurrency?: number
+  timeoutMs?: number
+  maxTokens?: number
+  cursor?: string
+}
+
+const callOutputShape = {
+  port: z.number().optional().describe("Port of the dev server that was called"),
+  host: z
+    .string()
+    .optional()
+    .describe("Host of the dev server that was called, when it came from discovery"),
+  toolName: z.string().optional().describe("Name of the runtime tool that was called"),
+  result: z.unknown().optional().describe("The runtime tool's MCP result"),
+  timedOut: z
+    .boolean()
+    .optional()
+    .describe("True when the dev server did not answer within timeoutMs"),
+  timeoutMs: z.number().optional().describe("The timeout that applied, when timedOut is true"),
+  truncation: z
+    .object({
+      originalTokens: z.number(),
+      returnedTokens: z.number(),
+      cursor: z.string().describe("Pass as 'cursor' to page through the full result"),
+    })
+    .optional()
+    .describe("Present when the result was over the token budget and was shaped"),
+  retries: z
+    .array(z.object({ attempt: z.number(), delayMs: z.number(), reason: z.string() }))
+    .optional()
+    .describe(
+      "Transient failures that were retried, e.g. while the dev server restarted after an edit"
+    ),
+  validationErrors: z
+    .array(z.string())
+    .optional()
+    .describe("Problems with 'args' found against the tool's inputSchema; the call was not made"),
+  suggestions: z
+    .array(z.string())
+    .optional()
+    .describe("Closest tool names, when 'toolName' is not a tool of the server"),
+  ...errorOutputShape,
+}
+
+export const outputSchema = {
+  ...callOutputShape,
+  results: z
+    .array(z.object(callOutputShape))
+    .optional()
+    .describe("Batch calls: one entry per call, in order, each with its result or error"),
+  succeeded: z.number().optional().describe("Batch calls: how many calls succeeded"),
+  failed: z.number().optional().describe("Batch calls: how many calls failed"),
+  selectedServer: z
+    .object({
+      port: z.number(),
+      host: z.string(),
+      projectRoot: z.string().nullable(),
+      reason: z.string().describe("Why this server was chosen"),
+    })
+    .optional()
+    .describe("The server chosen automatically when 'port' was omitted"),
+  candidates: z
+    .array(z.object({ port: z.number(), host: z.string(), projectRoot: z.string().nullable() }))
+    .optional()
+    .describe("Servers to choose from when 'port' was omitted and the choice was ambiguous"),
+  page: z
+    .object({
+      text: z.string(),
+      offset: z.number(),
+      totalChars: z.number(),
+      nextCursor: z.string().nullable().describe("Cursor of the next page; null on the last page"),
+    })
+    .optional()
+    .describe("A page of a truncated result, when called with 'cursor'"),
+}
+
+type CallOutcome = {
+  port?: number
+  host?: string
+  toolName?: string
+  result?: unknown
+  timedOut?: boolean
+  timeoutMs?: number
+  truncation?: Truncation
+  retries?: RetryAttempt[]
+  validationErrors?: string[]
+  suggestions?: string[]
+} & Partial<ErrorFields>
+
+type ServerSummary = { port: number; host: string; projectRoot: string | null }
+
+type NextjsCallOutput = CallOutcome & {
+  results?: CallOutcome[]
+  succeeded?: number
+  failed?: number
+  selectedServer?: ServerSummary & { reason: string }
+  candidates?: ServerSummary[]
+  page?: ResultPage
+}
+
+function rejectedCall(
+  port: number,
+  toolName: string,
+  args: Record<string, unknown>,
+  check: Exclude<ArgsCheck, { ok: true }>
+): CallOutcome {
+  if (check.kind === "unreachable") {
+    return { ...errorFields(check.error), port, toolName }
+  }
+
+  if (check.kind === "unknown-tool") {
+    const didYouMean = check.suggestions.length
+      ? `Did you mean ${check.suggestions.map((name) => `'${name}'`).join(" or ")}? `
+      : ""
+    return {
+      error: `Unknown tool '${toolName}' on port ${port}.`,
+      code: "UNKNOWN_TOOL",
+      port,
+      toolName,
+      suggestions: check.suggestions,
+      hint: `${didYouMean}Available tools: ${check.available.join(", ")}.`,
+      details: { available: check.available },
+    }
+  }
+
+  return {
+    error: `Invalid arguments for '${toolName}': ${check.problems.join("; ")}`,
+    code: "INVALID_ARGS",
+    port,
+    toolName,
+    validationErrors: check.problems,
+    hint: "Fix the arguments listed in validationErrors; 'nextjs_index' shows each tool's inputSchema.",
+    details: { args },
+  }
+}
+
+// A server to call; without a host, the one discovery last saw on the port
+type CallTarget = { port: number; host?: string }
+
+// Runs one call; failures become an outcome with `error` set, so a batch can
+// report them next to the calls that succeeded.
+async function callTool(
+  { port, host }: CallTarget,
+  toolName: string,
+  args: Record<string, unknown> | undefined,
+  { timeoutMs, maxTokens }: { timeoutMs?: number; maxTokens: number },
+  { signal, progressToken, onNotification }: ToolContext
+): Promise<CallOutcome> {
+  const retries: RetryAttempt[] = []
+  const withRetries = (outcome: CallOutcome) => ({
+    ...outcome,
+    ...(host && { host }),
+    ...(retries.length > 0 && { retries }),
+  })
+
   try {
-    if (!args.port) {
-      return JSON.stringify({
-        success: false,
-        error: "Port is required.",
-        hint: "Use 'nextjs_index' first to discover available servers and their ports. If auto-discovery fails, ask the user for the port and call 'nextjs_index' with the 'port' parameter.",
-      })
+    const check = await checkToolCall(port, toolName, args || {}, { host, timeoutMs, signal })
+    if (!check.ok) return withRetries(rejectedCall(port, toolName, args || {}, check))
+
+    const upstream = await callNextJsTool(port, toolName, args || {}, {
+      host,
+      timeoutMs,
+      signal,
+      progressToken,
+      onNotification,
+      // Without the tool list, only calls that never reached the server are retried
+      idempotent: check.tool ? isIdempotentTool(check.tool) : false,
+      onRetry: (attempt) => retries.push(attempt),
+    })
+    const { result, truncation } = shapeResult(upstream, maxTokens)
+    const shaped = withRetries({ port, toolName, result, ...(truncation && { truncation }) })
+
+    // The runtime tool ran but reported a failure (MCP tool-level error)
+    if ((upstream as { isError?: boolean } | undefined)?.isError === true) {
+      const message = `Runtime tool '${toolName}' on port ${port} reported an error.`
+      return {
+        error: message,
+        code: "UPSTREAM_TOOL_ERROR",
+        hint: "The tool's own error message is in 'result'. Fix what it reports (often the arguments or the app code), then call it again.",
+        ...shaped,
+      }
     }
 
-    if (!args.toolName) {
-      return JSON.stringify({
-        success: false,
-        error: "toolName is required.",
-        hint: "Use 'nextjs_index' to discover available tool names for your server.",
+    return shaped
+  } catch (error) {
+    if (error instanceof UpstreamTimeoutError) {
+      return withRetries({
+        ...errorFields(error),
+        port,
+        toolName,
+        timedOut: true,
+        timeoutMs: error.timeoutMs,
       })
     }
 
-    // Ensure port is a number
-    const portNumber = typeof args.port === "string" ? parseInt(args.port, 10) : args.port
+    if (signal?.aborted) {
+      const message = `Call to '${toolName}' on port ${port} was cancelled.`
+      return withRetries({ error: message, code: "CANCELLED", port, toolName })
+    }
 
-    const result = await callNextJsTool(portNumber, args.toolName, args.args || {})
+    return withRetries({ ...errorFields(error, "UPSTREAM_ERROR"), port, toolName })
+  }
+}
 
-    return JSON.stringify({
-      success: true,
-      port: portNumber,
-      toolName: args.toolName,
-      result,
+function unselectedServer(
+  selection: Exclude<ServerSelection, { ok: true }>
+): ToolResult<NextjsCallOutput> {
+  if (selection.kind === "no-server") {
+    const error = "No running Next.js dev servers with MCP enabled found"
+    return toolError(error, {
+      error,
+      code: "NO_SERVER_FOUND",
+      hint: "Start the dev server with 'npm run dev' (Next.js 16+). If it is already running, ask the user for its port and pass 'port'.",
     })
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error)
-    return JSON.stringify({
-      success: false,
-      error: errorMessage,
-      port: args.port,
-      toolName: args.toolName,
+  }
+
+  const candidates = selection.candidates.map((s) => ({
+    port: s.port,
+    host: s.host,
+    projectRoot: s.projectRoot ?? null,
+  }))
+  const error = `${candidates.length} Next.js dev servers could be meant; pass 'port' to choose one.`
+  return toolError(error, {
+    error,
+    code: "AMBIGUOUS_SERVER",
+    candidates,
+    hint: `Running servers: ${candidates
+      .map((s) => `port ${s.port} (${s.projectRoot ?? "unknown project"})`)
+      .join(", ")}. Pick the one for the project you are working on.`,
+  })
+}
+
+function readPage(cursor: string, maxTokens: number): ToolResult<NextjsCallOutput> {
+  const page = readResultPage(cursor, maxTokens)
+  if (!page) {
+    const error = `Unknown or expired cursor '${cursor}'.`
+    return toolError(error, {
+      error,
+      code: "CURSOR_EXPIRED",
+      details: { cursor },
+      hint: "Truncated results are kept for 15 minutes. Call the runtime tool again to get a fresh cursor.",
     })
   }
+
+  const end = page.offset + page.text.length
+  return toolResult(
+    `Characters ${page.offset}-${end} of ${page.totalChars}${
+      page.nextCursor ? "; pass nextCursor for more" : " (end of result)"
+    }.`,
+    { page }
+  )
+}
+
+async function handleBatch(
+  calls: CallSpec[],
+  args: NextjsCallArgs,
+  context: ToolContext
+): Promise<ToolResult<NextjsCallOutput>> {
+  const needsDiscovery = calls.some((call) => call.port === "all")
+  const servers = needsDiscovery
+    ? (await getCurrentServers()).map(({ port, host }) => ({ port, host }))
+    : []
+
+  if (needsDiscovery && servers.length === 0) {
+    const error = "No running Next.js dev servers with MCP enabled found"
+    return toolError(error, {
+      error,
+      code: "NO_SERVER_FOUND",
+      hint: "Use 'nextjs_index' to see which servers are running, or pass explicit ports.",
+    })
+  }
+
+  const expanded = calls.flatMap((call) => {
+    const targets: CallTarget[] = call.port === "all" ? servers : [{ port: call.port }]
+    return targets.map((target) => ({ ...call, target }))
+  })
+
+  // Progress tokens identify a single request, so concurrent upstream calls
+  // don't share the client's; cancellation and other notifications still apply.
+  const { signal, onNotification } = context
+  const maxTokens = Math.max(
+    Math.floor((args.maxTokens ?? getConfig().results.maxTokens) / expanded.length),
+    MIN_TOKENS_PER_RESULT
+  )
+  const results = await mapWithConcurrency(
+    expanded,
+    args.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+    (call) =>
+      callTool(
+        call.target,
+        call.toolName,
+        call.args,
+        { timeoutMs: args.timeoutMs, maxTokens },
+        { signal, onNotification }
+      )
+  )
+
+  const failed = results.filter((r) => r.error !== undefined).length
+  const succeeded = results.length - failed
+  const serverCount = new Set(expanded.map(({ target }) => `${target.host ?? ""}:${target.port}`))
+    .size
+  const summary = `Ran ${results.length} call${
+    results.length === 1 ? "" : "s"
+  } on ${serverCount} dev server${
+    serverCount === 1 ? "" : "s"
+  }: ${succeeded} succeeded, ${failed} failed.`
+
+  // Partial failures are reported per entry; the batch only fails as a whole
+  // when nothing succeeded
+  if (succeeded === 0) {
+    const codes = [...new Set(results.map((r) => r.code))]
+    const code: DevtoolsErrorCode = codes.length === 1 && codes[0] ? codes[0] : "BATCH_FAILED"
+    return toolError(summary, { results, succeeded, failed, error: summary, code })
+  }
+  return toolResult(summary, { results, succeeded, failed })
+}
+
+export async function handler(
+  args: NextjsCallArgs,
+  context: ToolContext = {}
+): Promise<ToolResult<NextjsCallOutput>> {
+  if (args.cursor) {
+    return readPage(args.cursor, args.maxTokens ?? getConfig().results.maxTokens)
+  }
+
+  if (args.calls) {
+    return handleBatch(args.calls, args, context)
+  }
+
+  if (!args.toolName) {
+    return toolError("toolName is required.", {
+      error: "toolName is required.",
+      code: "INVALID_ARGS",
+      details: { missing: ["toolName"] },
+      hint: "Use 'nextjs_index' to discover available tool names for your server.",
+    })
+  }
+
+  if (args.port === "all") {
+    return handleBatch([{ port: "all", toolName: args.toolName, args: args.args }], args, context)
+  }
+
+  let portNumber: number
+  let selectedServer: NextjsCallOutput["selectedServer"]
+  if (args.port === undefined) {
+    const selection = selectServer(await getCurrentServers(), {
+      roots: (await context.listRoots?.()) ?? [],
+      cwd: process.cwd(),
+    })
+    if (!selection.ok) return unselectedServer(selection)
+
+    const { port, host, projectRoot } = selection.server
+    portNumber = port
+    selectedServer = { port, host, projectRoot: projectRoot ?? null, reason: selection.reason }
+  } else {
+    // Ensure port is a number
+    portNumber = typeof args.port === "string" ? parseInt(args.port, 10) : args.port
+  }
+
+  const outcome = await callTool(
+    { port: portNumber, host: selectedServer?.host },
+    args.toolName,
+    args.args,
+    { timeoutMs: args.timeoutMs, maxTokens: args.maxTokens ?? getConfig().results.maxTokens },
+    context
+  )
+  const result = { ...outcome, ...(selectedServer && { selectedServer }) }
+  if (outcome.error !== undefined) {
+    return toolError(outcome.error, result)
+  }
+  const selected = selectedServer ? ` Chose port ${portNumber}: ${selectedServer.reason}.` : ""
+  const retried = outcome.retries
+    ? ` It answered after ${outcome.retries.length} ${
+        outcome.retries.length === 1 ? "retry" : "retries"
+      } (${outcome.retries.at(-1)!.reason}); the server was reloading, not down.`
+    : ""
+  const truncated = outcome.truncation
+    ? ` The result was truncated to fit ~${outcome.truncation.returnedTokens} tokens; pass 'cursor' to read all of it.`
+    : ""
+  return toolResult(
+    `Called '${args.toolName}' on the Next.js dev server on port ${portNumber}.${selected}${retried}${truncated}`,
+    result
+  )
 }
@@ -1,19 +1,40 @@
 import { z } from "zod"
+import path from "node:path"
 import {
   getAllAvailableServers,
   listNextJsTools,
+  requestNextJsTools,
+  getNextJsServerInfo,
+  getDefaultHost,
+  getIncompatibleServers,
   detectProtocol,
-  MCP_HOST,
 } from "../_internal/nextjs-runtime-manager.js"
+import {
+  toolResult,
+  toolError,
+  errorOutputShape,
+  type ToolResult,
+} from "../_internal/tool-result.js"
+import { errorFields, type ErrorFields } from "../_internal/error-codes.js"
+import { incompatibleErrorCode, MIN_MCP_NEXT_MAJOR } from "../_internal/incompatible-servers.js"
+import { isSameProject } from "../_internal/project-root.js"
+import { fingerprintServer, type FingerprintTarget } from "../_internal/server-fingerprint.js"
 
 export const inputSchema = {
   port: z
     .union([z.string(), z.number()])
     .transform((val) => (typeof val === "string" ? parseInt(val, 10) : val))
+    .pipe(z.number().int().min(1).max(65535))
     .optional()
     .describe(
       "Optional port number to probe directly. Use this when auto-discovery fails - ask the user which port their Next.js dev server is running on."
     ),
+  project_path: z
+    .string()
+    .optional()
+    .describe(
+      "Only return servers for the project containing this path (e.g. the app you are editing in a monorepo). A monorepo root matches every app inside it."
+    ),
 }
 
 export const metadata = {
@@ -50,12 +71,16 @@ Next.js 16+ exposes an MCP (Model Context Protocol) endpoint at /_next/mcp autom
 No configuration needed - MCP is enabled by default in Next.js 16 and later.
 
 This tool discovers all running Next.js servers and returns:
-- Server port, PID, and URL
+- Server port, PID, URL, and project directory (projectRoot)
+- A fingerprint of each server: Next.js version, bundler (Turbopack or webpack), HTTPS and self-signed certificate, routers in use (app/pages) and uptime
 - Complete list of available MCP tools for each server
 - Tool descriptions and input schemas
+- Next.js servers running without MCP (e.g. Next.js 15 or 'next start'), under 'incompatible', each with the reason and how to fix it
 
 After calling this tool, use 'nextjs_call' to execute specific tools.
 
+In a monorepo with several dev servers running, pass 'project_path' (the directory of the code you are working on) to get only the matching server.
+
 [IMPORTANT] If auto-discovery returns no servers:
 1. Ask the user which port their Next.js dev server is running on
 2. Call this tool again with the 'port' parameter set to the user-provided port
@@ -68,34 +93,135 @@ If the MCP endpoint is not available:
 
 type NextjsIndexArgs = {
   port?: string | number
+  project_path?: string
 }
 
-async function probeAndListTools(port: number): Promise<{
-  success: boolean
-  server?: {
-    port: number
-    url: string
-    toolCount: number
-    tools: { name: string; description?: string; inputSchema?: Record<string, unknown> }[]
+const toolSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  inputSchema: z.record(z.string(), z.unknown()).optional(),
+})
+
+const serverSchema = z.object({
+  host: z.string().describe("Host the server was found on"),
+  port: z.number(),
+  pid: z.number().optional().describe("Process ID (0 when found by port probing)"),
+  command: z.string().optional(),
+  url: z.string().describe("Base URL of the dev server"),
+  projectRoot: z
+    .string()
+    .nullable()
+    .describe("Directory of the Next.js project the server runs (null if unknown)"),
+  container: z
+    .object({ id: z.string(), name: z.string(), image: z.string() })
+    .optional()
+    .describe("Docker container publishing the port, when found via Docker discovery"),
+  otherPorts: z
+    .array(z.object({ port: z.number(), kind: z.enum(["debugger", "other"]) }))
+    .optional()
+    .describe("Other ports the server process listens on, e.g. the Node.js inspector"),
+  serverInfo: z
+    .object({ name: z.string(), version: z.string() })
+    .optional()
+    .describe("Name and version the dev server reported in the MCP handshake"),
+  protocolVersion: z.string().optional().describe("Negotiated MCP protocol version"),
+  fingerprint: z
+    .object({
+      nextVersion: z.string().nullable(),
+      bundler: z.enum(["turbopack", "webpack"]).nullable(),
+      https: z.boolean(),
+      selfSignedCert: z
+        .boolean()
+        .nullable()
+        .describe("Whether the HTTPS certificate is untrusted (null for HTTP)"),
+      routers: z.array(z.enum(["app", "pages"])).describe("Routers the project uses"),
+      uptimeSeconds: z.number().nullable().describe("How long the server process has run"),
+    })
+    .describe("What the dev server runs; null where it could not be determined"),
+  toolCount: z.number(),
+  tools: z.array(toolSchema).describe("Runtime MCP tools, callable via 'nextjs_call'"),
+})
+
+const incompatibleSchema = z.object({
+  host: z.string(),
+  port: z.number(),
+  pid: z.number(),
+  command: z.string(),
+  projectRoot: z.string().optional(),
+  nextVersion: z.string().optional().describe("Next.js version of the project, when known"),
+  kind: z.enum(["version-too-old", "production-server", "endpoint-missing"]),
+  reason: z.string().describe("Why the server has no usable MCP endpoint"),
+  upgrade: z.string().describe("What to do to make it usable"),
+})
+
+export const outputSchema = {
+  count: z.number().describe("Number of servers found"),
+  servers: z.array(serverSchema),
+  incompatible: z
+    .array(incompatibleSchema)
+    .optional()
+    .describe("Next.js servers found running without a usable /_next/mcp endpoint"),
+  message: z.string().optional(),
+  port: z.number().optional().describe("The port that was probed, when one was given"),
+  ai_instruction: z.string().optional(),
+  ...errorOutputShape,
+}
+
+type IndexedServer = z.infer<typeof serverSchema>
+
+type NextjsIndexOutput = {
+  count: number
+  servers: IndexedServer[]
+  incompatible?: z.infer<typeof incompatibleSchema>[]
+  message?: string
+  port?: number
+  ai_instruction?: string
+} & Partial<ErrorFields>
+
+// Only include what the server actually reported, so the output validates
+// against the schema for servers that skip the handshake. The fingerprint
+// starts from the handshake's serverInfo, so both come from one call.
+async function getHandshakeInfo(
+  target: Omit<FingerprintTarget, "serverInfo">
+): Promise<Pick<IndexedServer, "serverInfo" | "protocolVersion" | "fingerprint">> {
+  const { serverInfo, protocolVersion } = await getNextJsServerInfo(target.port, target.host)
+  return {
+    ...(serverInfo && { serverInfo }),
+    ...(protocolVersion && { protocolVersion }),
+    fingerprint: await fingerprintServer({ ...target, serverInfo: serverInfo ?? undefined }),
   }
-  error?: string
-}> {
+}
+
+async function probeAndListTools(
+  port: number
+): Promise<{ success: true; server: IndexedServer } | { success: false; failure: ErrorFields }> {
+  const host = getDefaultHost()
+
   try {
-    const protocol = await detectProtocol(port)
-    const tools = await listNextJsTools(port)
+    const protocol = await detectProtocol(port, host)
+    const tools = await requestNextJsTools(port, host)
 
     if (tools.length === 0) {
       return {
         success: false,
-        error: `No MCP tools found on port ${port}. The server may not be running Next.js 16+ or MCP may not be enabled.`,
+        failure: {
+          error: `No MCP tools found on port ${port}. The server may not be running Next.js ${MIN_MCP_NEXT_MAJOR}+ or MCP may not be enabled.`,
+          code: "MCP_ENDPOINT_MISSING",
+          hint: `Make sure the Next.js dev server is running on this port and is version ${MIN_MCP_NEXT_MAJOR}+.`,
+          details: { port, host },
+        },
       }
     }
 
     return {
       success: true,
       server: {
+        host,
         port,
-        url: `${protocol}://${MCP_HOST}:${port}`,
+        url: `${protocol}://${host}:${port}`,
+        // Only known for servers found by discovery, which sees the process
+        projectRoot: null,
+        ...(await getHandshakeInfo({ host, port, protocol })),
         toolCount: tools.length,
         tools: tools.map((t) => ({
           name: t.name,
@@ -105,62 +231,116 @@ async function probeAndListTools(port: number): Promise<{
       },
     }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error)
+    const failure = errorFields(error, "UPSTREAM_ERROR")
     return {
       success: false,
-      error: `Failed to connect to port ${port}: ${errorMessage}`,
+      failure: { ...failure, error: `Failed to connect to port ${port}: ${failure.error}` },
     }
   }
 }
 
-export async function handler(args: NextjsIndexArgs = {}): Promise<string> {
+export async function handler(args: NextjsIndexArgs = {}): Promise<ToolResult<NextjsIndexOutput>> {
   try {
     // If a specific port is provided, probe it directly
     if (args.port !== undefined) {
       const portNumber = typeof args.port === "string" ? parseInt(args.port, 10) : args.port
       const result = await probeAndListTools(portNumber)
 
-      if (result.success && result.server) {
-        return JSON.stringify({
-          success: true,
+      if (result.success) {
+        const message = `Successfully connected to Next.js server on port ${portNumber}`
+        return toolResult(message, {
           count: 1,
           servers: [result.server],
-          message: `Successfully connected to Next.js server on port ${portNumber}`,
+          message,
         })
       } else {
-        return JSON.stringify({
-          success: false,
-          error: result.error,
+        return toolError(result.failure.error, {
+          count: 0,
+          servers: [],
           port: portNumber,
           hint: "Make sure the Next.js dev server is running on this port and is version 16+.",
+          ...result.failure,
         })
       }
     }
 
     // Auto-discover all servers
-    const servers = await getAllAvailableServers()
+    const discovered = await getAllAvailableServers()
+    const projectPath = args.project_path && path.resolve(args.project_path)
+    const inProject = (s: { projectRoot?: string }) =>
+      !projectPath || Boolean(s.projectRoot && isSameProject(s.projectRoot, projectPath))
+    const servers = discovered.filter(inProject)
+    const incompatible = getIncompatibleServers().filter(inProject)
+
+    if (projectPath && servers.length === 0 && discovered.length > 0) {
+      const error = `None of the ${discovered.length} running Next.js dev servers belongs to ${projectPath}`
+      return toolError(error, {
+        count: 0,
+        servers: [],
+        error,
+        code: "NO_SERVER_FOUND",
+        details: {
+          projectPath,
+          running: discovered.map((s) => ({ port: s.port, projectRoot: s.projectRoot ?? null })),
+        },
+        hint: `Running servers: ${discovered
+          .map((s) => `port ${s.port} (${s.projectRoot ?? "unknown project"})`)
+          .join(
+            ", "
+          )}. Start the dev server for this project, or call again without 'project_path'.`,
+      })
+    }
+
+    if (servers.length === 0 && incompatible.length > 0) {
+      const error = `Found ${incompatible.length} running Next.js server${
+        incompatible.length === 1 ? "" : "s"
+      }, but none with MCP enabled`
+      return toolError(error, {
+        count: 0,
+        servers: [],
+        incompatible,
+        error,
+        code: incompatibleErrorCode(incompatible),
+        details: {
+          servers: incompatible.map(({ port, kind, nextVersion }) => ({
+            port,
+            kind,
+            nextVersion: nextVersion ?? null,
+          })),
+        },
+        hint: incompatible.map((s) => `Port ${s.port}: ${s.reason}. ${s.upgrade}`).join(" "),
+      })
+    }
 
     if (servers.length === 0) {
-      return JSON.stringify({
-        success: false,
-        error: "No running Next.js dev servers with MCP enabled found",
+      const error = "No running Next.js dev servers with MCP enabled found"
+      return toolError(error, {
+        count: 0,
+        servers: [],
+        error,
+        code: "NO_SERVER_FOUND",
+        details: { projectPath: projectPath || null },
         hint: "Make sure you're running Next.js 16+ (MCP is enabled by default). Start the dev server with 'npm run dev'. If on Next.js 15 or earlier, upgrade with 'npx @next/codemod@latest upgrade latest'.",
         ai_instruction:
           "IMPORTANT: Server auto-discovery may not work on all operating systems or network configurations. Please ask the user: 'What port is your Next.js dev server running on?'. Once you have the port number, call this tool again with the 'port' parameter set to the user-provided port.",
-        servers: [],
       })
     }
 
     // Get tools for each server
     const serversWithTools = await Promise.all(
       servers.map(async (s) => {
-        const protocol = await detectProtocol(s.port)
-        const tools = await listNextJsTools(s.port)
+        const protocol = await detectProtocol(s.port, s.host)
+        const tools = await listNextJsTools(s.port, s.host)
         return {
+          host: s.host,
           port: s.port,
           pid: s.pid,
           command: s.command,
-          url: `${protocol}://localhost:${s.port}`,
+          url: `${protocol}://${s.host}:${s.port}`,
+          projectRoot: s.projectRoot ?? null,
+          ...(s.container && { container: s.container }),
+          ...(s.otherPorts && { otherPorts: s.otherPorts }),
+          ...(await getHandshakeInfo({ ...s, protocol })),
           toolCount: tools.length,
           tools: tools.map((t) => ({
             name: t.name,
@@ -171,19 +351,21 @@ export async function handler(args: NextjsIndexArgs = {}): Promise<string> {
       })
     )
 
-    return JSON.stringify({
-      success: true,
+    const message = `Found ${serversWithTools.length} Next.js server${
+      serversWithTools.length === 1 ? "" : "s"
+    } with MCP enabled`
+    return toolResult(message, {
       count: serversWithTools.length,
       servers: serversWithTools,
-      message: `Found ${serversWithTools.length} Next.js server${
-        serversWithTools.length === 1 ? "" : "s"
-      } with MCP enabled`,
+      ...(incompatible.length > 0 && { incompatible }),
+      message,
     })
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error)
-    return JSON.stringify({
-      success: false,
-      error: errorMessage,
+    const failure = errorFields(error)
+    return toolError(failure.error, {
+      count: 0,
+      servers: [],
+      ...failure,
     })
   }
 }
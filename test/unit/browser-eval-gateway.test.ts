@@ -28,7 +28,7 @@ describe("browser_eval gateway", () => {
       return ""
     })
 
-    const result = JSON.parse(await handler({}))
+    const result = (await handler({})).structuredContent
     expect(result.status).toBe("use_agent_browser")
     expect(result.version).toBe("0.27.3")
     expect(JSON.stringify(result.instructions)).toContain("agent-browser skills get core --full")
@@ -42,7 +42,7 @@ describe("browser_eval gateway", () => {
       return ""
     })
 
-    const result = JSON.parse(await handler({}))
+    const result = (await handler({})).structuredContent
     expect(result.status).toBe("install_required")
     expect(JSON.stringify(result.instructions)).toContain("npm install -g agent-browser")
     expect(JSON.stringify(result.instructions)).toContain("agent-browser install")
@@ -55,9 +55,9 @@ describe("browser_eval gateway", () => {
       return ""
     })
 
-    const result = JSON.parse(
-      await handler({ task: "open localhost:3000 and check console errors" })
-    )
+    const { structuredContent: result } = await handler({
+      task: "open localhost:3000 and check console errors",
+    })
     expect(JSON.stringify(result.instructions)).toContain("localhost:3000")
   })
 })
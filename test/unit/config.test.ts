@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import {
+  CONFIG_FILE_NAME,
+  ConfigError,
+  findConfigFile,
+  isToolEnabled,
+  loadConfig,
+  parsePortList,
+} from "../../src/_internal/config.js"
+import { mapWithConcurrency } from "../../src/_internal/concurrency.js"
+
+// Layout:
+//   empty/                          no config anywhere up to the filesystem root
+//   configured/next-devtools.config.json
+//   configured/apps/web/            picks up the config two levels up
+//   pkg/package.json                config under the `nextDevtools` key
+//   invalid/next-devtools.config.json
+let tmp: string
+let emptyDir: string
+let configDir: string
+let pkgDir: string
+let invalidDir: string
+
+function writeJson(dir: string, file: string, value: unknown) {
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(path.join(dir, file), JSON.stringify(value))
+}
+
+beforeAll(() => {
+  tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "devtools-config-")))
+  emptyDir = path.join(tmp, "empty")
+  configDir = path.join(tmp, "configured")
+  pkgDir = path.join(tmp, "pkg")
+  invalidDir = path.join(tmp, "invalid")
+
+  fs.mkdirSync(emptyDir)
+  fs.mkdirSync(path.join(configDir, "apps", "web"), { recursive: true })
+  writeJson(configDir, CONFIG_FILE_NAME, {
+    discovery: { ports: [4000, "5000-5002"], hosts: ["10.0.0.5"], probeConcurrency: 4 },
+    timeouts: { probeMs: 250, callMs: 5000 },
+    results: { maxTokens: 2000 },
+    retry: { maxRetries: 1, baseDelayMs: 50 },
+    watch: { intervalMs: 1000 },
+    tls: { allowSelfSigned: true },
+    tools: { disabled: ["browser_eval"] },
+    telemetry: { enabled: false },
+  })
+  writeJson(pkgDir, "package.json", {
+    name: "app",
+    nextDevtools: { tools: { enabled: ["nextjs_index", "nextjs_call"] } },
+  })
+  writeJson(invalidDir, CONFIG_FILE_NAME, {
+    discovery: { ports: "3000-99999", probeConcurrency: 0 },
+    timeouts: { callMs: "soon" },
+    telemtry: { enabled: false },
+  })
+})
+
+afterAll(() => {
+  fs.rmSync(tmp, { recursive: true, force: true })
+})
+
+describe("parsePortList", () => {
+  it("expands ranges and drops duplicates, keeping order", () => {
+    expect(parsePortList("3000-3002, 8080,3001")).toEqual([3000, 3001, 3002, 8080])
+    expect(parsePortList([4000, "4001-4002"])).toEqual([4000, 4001, 4002])
+  })
+
+  it("rejects malformed ports and ranges", () => {
+    expect(() => parsePortList("abc")).toThrow(/Invalid port 'abc'/)
+    expect(() => parsePortList("3010-3000")).toThrow(/Invalid port range/)
+    expect(() => parsePortList("0")).toThrow(/between 1 and 65535/)
+    expect(() => parsePortList("70000")).toThrow(/between 1 and 65535/)
+    expect(() => parsePortList("")).toThrow(/empty/)
+  })
+
+  it("refuses port lists large enough to be a scan", () => {
+    expect(() => parsePortList("1000-30000")).toThrow(/Too many ports/)
+  })
+})
+
+describe("findConfigFile", () => {
+  it("walks up from the working directory", () => {
+    expect(findConfigFile(path.join(configDir, "apps", "web"))?.source).toBe(
+      path.join(configDir, CONFIG_FILE_NAME)
+    )
+  })
+
+  it("reads the nextDevtools key of package.json", () => {
+    const found = findConfigFile(pkgDir)
+    expect(found?.source).toBe(`${path.join(pkgDir, "package.json")} (nextDevtools)`)
+    expect(found?.raw).toEqual({ tools: { enabled: ["nextjs_index", "nextjs_call"] } })
+  })
+
+  it("returns null when there is no config", () => {
+    expect(findConfigFile(emptyDir)).toBeNull()
+  })
+})
+
+describe("loadConfig", () => {
+  it("falls back to defaults without a config file", () => {
+    const config = loadConfig({}, emptyDir)
+    expect(config.discovery).toEqual({
+      hosts: ["localhost"],
+      ports: parsePortList("3000-3010"),
+      probeConcurrency: 16,
+      docker: null,
+    })
+    expect(config.timeouts).toEqual({ probeMs: 500, callMs: 60000 })
+    expect(config.results).toEqual({ maxTokens: 10000 })
+    expect(config.retry).toEqual({ maxRetries: 3, baseDelayMs: 200 })
+    expect(config.watch).toEqual({ intervalMs: 5000 })
+    expect(config.tls.allowSelfSigned).toBe(false)
+    expect(config.telemetry.enabled).toBe(true)
+    expect(config.source).toBeUndefined()
+  })
+
+  it("reads every section of the config file", () => {
+    const config = loadConfig({}, path.join(configDir, "apps", "web"))
+    expect(config).toEqual({
+      discovery: {
+        hosts: ["10.0.0.5"],
+        ports: [4000, 5000, 5001, 5002],
+        probeConcurrency: 4,
+        docker: null,
+      },
+      timeouts: { probeMs: 250, callMs: 5000 },
+      results: { maxTokens: 2000 },
+      retry: { maxRetries: 1, baseDelayMs: 50 },
+      watch: { intervalMs: 1000 },
+      tls: { allowSelfSigned: true },
+      tools: { enabled: undefined, disabled: ["browser_eval"] },
+      telemetry: { enabled: false },
+      source: path.join(configDir, CONFIG_FILE_NAME),
+    })
+  })
+
+  it("lets environment variables override the config file", () => {
+    const config = loadConfig(
+      {
+        NEXT_DEVTOOLS_PORTS: "3000,3005",
+        NEXT_DEVTOOLS_HOSTS: "localhost, 127.0.0.1",
+        NEXT_DEVTOOLS_PROBE_CONCURRENCY: "2",
+        NEXT_DEVTOOLS_CALL_TIMEOUT_MS: "1000",
+        NEXT_DEVTOOLS_MAX_RESULT_TOKENS: "500",
+        NEXT_DEVTOOLS_MAX_RETRIES: "0",
+        NEXT_DEVTOOLS_WATCH_INTERVAL_MS: "250",
+      },
+      configDir
+    )
+    expect(config.discovery).toEqual({
+      hosts: ["localhost", "127.0.0.1"],
+      ports: [3000, 3005],
+      probeConcurrency: 2,
+      docker: null,
+    })
+    expect(config.timeouts).toEqual({ probeMs: 250, callMs: 1000 })
+    expect(config.results).toEqual({ maxTokens: 500 })
+    expect(config.retry).toEqual({ maxRetries: 0, baseDelayMs: 50 })
+    expect(config.watch).toEqual({ intervalMs: 250 })
+  })
+
+  it("honors the standard TLS and telemetry environment variables", () => {
+    const config = loadConfig(
+      { NODE_TLS_REJECT_UNAUTHORIZED: "0", NEXT_TELEMETRY_DISABLED: "1" },
+      emptyDir
+    )
+    expect(config.tls.allowSelfSigned).toBe(true)
+    expect(config.telemetry.enabled).toBe(false)
+  })
+
+  it("finds the Docker socket from the file, DOCKER_HOST or the default", () => {
+    const enabled = { NEXT_DEVTOOLS_DOCKER: "1" }
+    expect(loadConfig(enabled, emptyDir).discovery.docker).toEqual({
+      socketPath: "/var/run/docker.sock",
+    })
+    expect(
+      loadConfig({ ...enabled, DOCKER_HOST: "unix:///run/user/1000/docker.sock" }, emptyDir)
+        .discovery.docker
+    ).toEqual({ socketPath: "/run/user/1000/docker.sock" })
+    expect(() => loadConfig({ ...enabled, DOCKER_HOST: "tcp://10.0.0.2:2375" }, emptyDir)).toThrow(
+      /DOCKER_HOST is 'tcp:\/\/10.0.0.2:2375'/
+    )
+
+    writeJson(path.join(tmp, "docker"), CONFIG_FILE_NAME, {
+      discovery: { docker: { socketPath: "/tmp/colima.sock" } },
+    })
+    expect(loadConfig({}, path.join(tmp, "docker")).discovery.docker).toEqual({
+      socketPath: "/tmp/colima.sock",
+    })
+    expect(
+      loadConfig({ NEXT_DEVTOOLS_DOCKER: "0" }, path.join(tmp, "docker")).discovery.docker
+    ).toBeNull()
+  })
+
+  it("accepts NEXT_DEVTOOLS_HOST for a single host", () => {
+    expect(loadConfig({ NEXT_DEVTOOLS_HOST: "devbox" }, emptyDir).discovery.hosts).toEqual([
+      "devbox",
+    ])
+  })
+
+  it("names the variable when an environment value is invalid", () => {
+    expect(() => loadConfig({ NEXT_DEVTOOLS_PROBE_CONCURRENCY: "0" }, emptyDir)).toThrow(
+      /Invalid NEXT_DEVTOOLS_PROBE_CONCURRENCY '0'/
+    )
+    expect(() => loadConfig({ NEXT_DEVTOOLS_WATCH_INTERVAL_MS: "soon" }, emptyDir)).toThrow(
+      ConfigError
+    )
+    expect(() => loadConfig({ NEXT_DEVTOOLS_PORTS: "abc" }, emptyDir)).toThrow(
+      /Invalid NEXT_DEVTOOLS_PORTS: Invalid port 'abc'/
+    )
+  })
+
+  it("lists every problem in an invalid config file", () => {
+    let error: unknown
+    try {
+      loadConfig({}, invalidDir)
+    } catch (e) {
+      error = e
+    }
+
+    expect(error).toBeInstanceOf(ConfigError)
+    const message = (error as ConfigError).message
+    expect(message).toContain(path.join(invalidDir, CONFIG_FILE_NAME))
+    expect(message).toMatch(/discovery\.ports: Invalid port range '3000-99999'/)
+    expect(message).toMatch(/discovery\.probeConcurrency:/)
+    expect(message).toMatch(/timeouts\.callMs: Expected number, received string/)
+    expect(message).toMatch(/Unrecognized key\(s\) in object: 'telemtry'/)
+  })
+})
+
+describe("isToolEnabled", () => {
+  it("applies the allow list, then the deny list", () => {
+    const allowed = loadConfig({}, pkgDir)
+    expect(isToolEnabled("nextjs_index", allowed)).toBe(true)
+    expect(isToolEnabled("browser_eval", allowed)).toBe(false)
+
+    const denied = loadConfig({}, configDir)
+    expect(isToolEnabled("nextjs_index", denied)).toBe(true)
+    expect(isToolEnabled("browser_eval", denied)).toBe(false)
+  })
+})
+
+describe("mapWithConcurrency", () => {
+  it("keeps result order and never exceeds the limit", async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, delay))
+      inFlight--
+      return index
+    })
+
+    expect(results).toEqual([0, 1, 2, 3, 4])
+    expect(maxInFlight).toBe(2)
+  })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import {
+  listDockerEndpoints,
+  socketPathFromDockerHost,
+} from "../../src/_internal/docker-discovery.js"
+import { getAllAvailableServers } from "../../src/_internal/nextjs-runtime-manager.js"
+
+// A stand-in for the Docker Engine API on a unix socket, and a Next.js dev
+// server "published" by one of its containers.
+let tmp: string
+let socketPath: string
+let brokenSocketPath: string
+let dockerApi: Server
+let brokenDockerApi: Server
+let nextServer: Server
+let nextPort: number
+
+function containers() {
+  return [
+    {
+      Id: "0123456789abcdef0123",
+      Names: ["/myapp-web-1"],
+      Image: "myapp-web:dev",
+      Ports: [
+        { IP: "0.0.0.0", PrivatePort: 3000, PublicPort: nextPort, Type: "tcp" },
+        { IP: "::", PrivatePort: 3000, PublicPort: nextPort, Type: "tcp" },
+        { PrivatePort: 9229, Type: "tcp" },
+      ],
+    },
+    {
+      Id: "fedcba9876543210fedc",
+      Names: ["/myapp-db-1"],
+      Image: "postgres:16",
+      Ports: [
+        { IP: "127.0.0.1", PrivatePort: 5432, PublicPort: 1, Type: "tcp" },
+        { IP: "0.0.0.0", PrivatePort: 5353, PublicPort: 5353, Type: "udp" },
+      ],
+    },
+  ]
+}
+
+function listen(server: Server, target: string | number) {
+  return new Promise<void>((resolve) =>
+    typeof target === "string"
+      ? server.listen(target, resolve)
+      : server.listen(target, "localhost", resolve)
+  )
+}
+
+function close(server: Server) {
+  server.closeAllConnections()
+  return new Promise<void>((resolve) => server.close(() => resolve()))
+}
+
+beforeAll(async () => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), "docker-discovery-"))
+  socketPath = path.join(tmp, "docker.sock")
+  brokenSocketPath = path.join(tmp, "broken.sock")
+
+  nextServer = createServer((req, res) => {
+    let body = ""
+    req.on("data", (chunk) => (body += chunk))
+    req.on("end", () => {
+      const { id } = JSON.parse(body)
+      res.writeHead(200, { "Content-Type": "application/json" })
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, result: { tools: [] } }))
+    })
+  })
+  await listen(nextServer, 0)
+  nextPort = (nextServer.address() as AddressInfo).port
+
+  dockerApi = createServer((req, res) => {
+    if (req.method === "GET" && req.url === "/containers/json") {
+      res.writeHead(200, { "Content-Type": "application/json" })
+      res.end(JSON.stringify(containers()))
+    } else {
+      res.writeHead(404)
+      res.end()
+    }
+  })
+  await listen(dockerApi, socketPath)
+
+  brokenDockerApi = createServer((_req, res) => {
+    res.writeHead(500, { "Content-Type": "application/json" })
+    res.end(JSON.stringify({ message: "daemon is restarting" }))
+  })
+  await listen(brokenDockerApi, brokenSocketPath)
+
+  // Read on first use of the config: only probe a closed port directly, so
+  // the dev server can only be found through Docker
+  process.env.NEXT_DEVTOOLS_DOCKER = "1"
+  process.env.DOCKER_HOST = `unix://${socketPath}`
+  process.env.NEXT_DEVTOOLS_PORTS = "1"
+})
+
+afterAll(async () => {
+  await Promise.all([close(nextServer), close(dockerApi), close(brokenDockerApi)])
+  fs.rmSync(tmp, { recursive: true, force: true })
+  delete process.env.NEXT_DEVTOOLS_DOCKER
+  delete process.env.DOCKER_HOST
+  delete process.env.NEXT_DEVTOOLS_PORTS
+})
+
+describe("socketPathFromDockerHost", () => {
+  it("understands unix sockets and Windows named pipes", () => {
+    expect(socketPathFromDockerHost("unix:///var/run/docker.sock")).toBe("/var/run/docker.sock")
+    expect(socketPathFromDockerHost("npipe:////./pipe/docker_engine")).toBe(
+      "\\\\.\\pipe\\docker_engine"
+    )
+    expect(socketPathFromDockerHost("tcp://10.0.0.2:2375")).toBeNull()
+  })
+})
+
+describe("listDockerEndpoints", () => {
+  it("lists each published TCP port once, labeled with its container", async () => {
+    expect(await listDockerEndpoints(socketPath)).toEqual([
+      {
+        host: null,
+        port: nextPort,
+        container: { id: "0123456789ab", name: "myapp-web-1", image: "myapp-web:dev" },
+      },
+      {
+        host: "127.0.0.1",
+        port: 1,
+        container: { id: "fedcba987654", name: "myapp-db-1", image: "postgres:16" },
+      },
+    ])
+  })
+
+  it("reports Docker API errors", async () => {
+    await expect(listDockerEndpoints(brokenSocketPath)).rejects.toThrow(
+      /Docker API \/containers\/json returned 500: .*daemon is restarting/
+    )
+  })
+
+  it("fails when no daemon is listening", async () => {
+    await expect(listDockerEndpoints(path.join(tmp, "missing.sock"))).rejects.toThrow(/ENOENT/)
+  })
+})
+
+describe("Docker discovery", () => {
+  it("finds a dev server published by a container outside the probed ports", async () => {
+    const servers = await getAllAvailableServers()
+    const fromDocker = servers.filter((s) => s.container)
+
+    expect(fromDocker).toEqual([
+      {
+        host: "localhost",
+        port: nextPort,
+        pid: 0,
+        command: "Docker container myapp-web-1 (myapp-web:dev)",
+        container: { id: "0123456789ab", name: "myapp-web-1", image: "myapp-web:dev" },
+      },
+    ])
+  }, 20000)
+})
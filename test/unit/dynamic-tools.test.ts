@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+
+const getAllAvailableServersMock = vi.fn()
+const listNextJsToolsMock = vi.fn()
+const callNextJsToolMock = vi.fn()
+
+vi.mock("../../src/_internal/nextjs-runtime-manager.js", () => ({
+  getAllAvailableServers: (...args: unknown[]) => getAllAvailableServersMock(...args),
+  listNextJsTools: (...args: unknown[]) => listNextJsToolsMock(...args),
+  callNextJsTool: (...args: unknown[]) => callNextJsToolMock(...args),
+}))
+
+import {
+  dynamicToolName,
+  refreshDynamicTools,
+  getDynamicTools,
+  findDynamicTool,
+  callDynamicTool,
+} from "../../src/_internal/dynamic-tools.js"
+
+const GET_ERRORS = {
+  name: "get_errors",
+  description: "Get current errors",
+  inputSchema: { type: "object", properties: {} },
+}
+const GET_ACTION = {
+  name: "get_server_action_by_id",
+  inputSchema: {
+    type: "object",
+    properties: { actionId: { type: "string" } },
+    required: ["actionId"],
+  },
+}
+
+describe("dynamic upstream tools", () => {
+  beforeEach(() => {
+    getAllAvailableServersMock.mockReset()
+    listNextJsToolsMock.mockReset()
+    callNextJsToolMock.mockReset()
+  })
+
+  it("builds port-qualified, MCP-safe tool names", () => {
+    expect(dynamicToolName(3000, "get_errors")).toBe("nextjs_3000_get_errors")
+    expect(dynamicToolName(3000, "get errors/v2")).toBe("nextjs_3000_get_errors_v2")
+  })
+
+  it("registers every upstream tool with its real inputSchema", async () => {
+    getAllAvailableServersMock.mockResolvedValue([
+      { host: "localhost", port: 3000, pid: 1, command: "next-server" },
+      { host: "localhost", port: 3001, pid: 2, command: "next-server" },
+    ])
+    listNextJsToolsMock.mockImplementation(async (port: number) =>
+      port === 3000 ? [GET_ERRORS, GET_ACTION] : [GET_ERRORS]
+    )
+
+    await refreshDynamicTools()
+    const tools = await getDynamicTools()
+
+    expect(tools.map((t) => t.name)).toEqual([
+      "nextjs_3000_get_errors",
+      "nextjs_3000_get_server_action_by_id",
+      "nextjs_3001_get_errors",
+    ])
+    expect(findDynamicTool("nextjs_3000_get_server_action_by_id")?.inputSchema).toEqual(
+      GET_ACTION.inputSchema
+    )
+  })
+
+  it("reports whether the tool set changed", async () => {
+    getAllAvailableServersMock.mockResolvedValue([
+      { host: "localhost", port: 3000, pid: 1, command: "next-server" },
+    ])
+    listNextJsToolsMock.mockResolvedValue([GET_ERRORS])
+    await refreshDynamicTools()
+
+    expect(await refreshDynamicTools()).toBe(false)
+
+    listNextJsToolsMock.mockResolvedValue([GET_ERRORS, GET_ACTION])
+    expect(await refreshDynamicTools()).toBe(true)
+
+    getAllAvailableServersMock.mockResolvedValue([])
+    expect(await refreshDynamicTools()).toBe(true)
+    expect(findDynamicTool("nextjs_3000_get_errors")).toBeUndefined()
+  })
+
+  it("forwards calls to the upstream tool on the right port", async () => {
+    getAllAvailableServersMock.mockResolvedValue([
+      { host: "localhost", port: 3002, pid: 1, command: "next-server" },
+    ])
+    listNextJsToolsMock.mockResolvedValue([GET_ACTION])
+    callNextJsToolMock.mockResolvedValue({ content: [{ type: "text", text: "ok" }] })
+    await refreshDynamicTools()
+
+    const tool = findDynamicTool("nextjs_3002_get_server_action_by_id")!
+    const signal = new AbortController().signal
+    const result = await callDynamicTool(tool, { actionId: "abc" }, { signal })
+
+    expect(callNextJsToolMock).toHaveBeenCalledWith(
+      3002,
+      "get_server_action_by_id",
+      { actionId: "abc" },
+      { signal, host: "localhost" }
+    )
+    expect(result).toEqual({ content: [{ type: "text", text: "ok" }] })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from "vitest"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { DevtoolsError, errorFields } from "../../src/_internal/error-codes.js"
+import { incompatibleErrorCode } from "../../src/_internal/incompatible-servers.js"
+import { callNextJsTool } from "../../src/_internal/nextjs-runtime-manager.js"
+
+describe("errorFields", () => {
+  it("keeps the code, hint and details of a DevtoolsError", () => {
+    const error = new DevtoolsError("UPSTREAM_TIMEOUT", "too slow", "retry", { timeoutMs: 10 })
+    expect(errorFields(error)).toEqual({
+      error: "too slow",
+      code: "UPSTREAM_TIMEOUT",
+      hint: "retry",
+      details: { timeoutMs: 10 },
+    })
+  })
+
+  it("gives other errors the fallback code", () => {
+    expect(errorFields(new Error("boom"))).toEqual({ error: "boom", code: "INTERNAL_ERROR" })
+    expect(errorFields("boom", "UPSTREAM_ERROR")).toEqual({ error: "boom", code: "UPSTREAM_ERROR" })
+  })
+})
+
+describe("incompatibleErrorCode", () => {
+  it("asks for an upgrade only when that fixes every server", () => {
+    expect(incompatibleErrorCode([{ kind: "version-too-old" }])).toBe("NEXT_VERSION_TOO_OLD")
+    expect(
+      incompatibleErrorCode([{ kind: "version-too-old" }, { kind: "production-server" }])
+    ).toBe("MCP_ENDPOINT_MISSING")
+  })
+})
+
+describe("runtime errors carry codes", () => {
+  let server: Server | undefined
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+    server = undefined
+  })
+
+  async function listen(handler: Parameters<typeof createServer>[0]): Promise<number> {
+    server = createServer(handler)
+    await new Promise<void>((resolve) => server!.listen(0, "localhost", resolve))
+    return (server.address() as AddressInfo).port
+  }
+
+  it("reports a missing /_next/mcp as MCP_ENDPOINT_MISSING", async () => {
+    const port = await listen((_req, res) => {
+      res.writeHead(404)
+      res.end()
+    })
+
+    const error = await callNextJsTool(port, "get_errors", {}).catch((e) => e)
+
+    expect(error).toBeInstanceOf(DevtoolsError)
+    expect(error).toMatchObject({
+      code: "MCP_ENDPOINT_MISSING",
+      hint: expect.stringContaining("upgrade latest"),
+      details: { port, status: 404, toolName: "get_errors" },
+    })
+  })
+
+  it("reports a port nothing listens on as SERVER_UNREACHABLE", async () => {
+    const port = await listen(() => {})
+    await new Promise<void>((resolve) => server!.close(() => resolve()))
+    server = undefined
+
+    const error = await callNextJsTool(port, "get_errors", {}).catch((e) => e)
+
+    expect(error).toMatchObject({
+      code: "SERVER_UNREACHABLE",
+      message: expect.stringContaining(`Cannot connect to Next.js dev server on port ${port}`),
+      details: { port, retries: 3 },
+    })
+  })
+})
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { Server } from "@modelcontextprotocol/sdk/server/index.js"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js"
+import { startHttpTransport, type HttpTransportHandle } from "../../src/_internal/http-transport.js"
+import { parseCliOptions } from "../../src/_internal/cli-options.js"
+
+const TOKEN = "test-token"
+
+function createTestServer(): Server {
+  const server = new Server({ name: "test", version: "0.0.0" }, { capabilities: { tools: {} } })
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: "echo", inputSchema: { type: "object" } }],
+  }))
+  return server
+}
+
+async function connectClient(
+  url: string,
+  token: string
+): Promise<{
+  client: Client
+  transport: StreamableHTTPClientTransport
+}> {
+  const client = new Client({ name: "test-client", version: "0.0.0" })
+  const transport = new StreamableHTTPClientTransport(new URL(url), {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  })
+  await client.connect(transport)
+  return { client, transport }
+}
+
+describe("HTTP transport", () => {
+  let handle: HttpTransportHandle
+
+  beforeEach(async () => {
+    handle = await startHttpTransport({
+      port: 0,
+      host: "127.0.0.1",
+      authToken: TOKEN,
+      createServer: createTestServer,
+    })
+  })
+
+  afterEach(async () => {
+    await handle.close()
+  })
+
+  it("rejects requests without a valid bearer token", async () => {
+    const response = await fetch(handle.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer wrong" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    })
+    expect(response.status).toBe(401)
+    expect(response.headers.get("www-authenticate")).toContain("Bearer")
+  })
+
+  it("rejects non-initialize requests without a session", async () => {
+    const response = await fetch(handle.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: `Bearer ${TOKEN}`,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    })
+    expect(response.status).toBe(400)
+  })
+
+  it("serves tools to an authenticated client", async () => {
+    const { client } = await connectClient(handle.url, TOKEN)
+    try {
+      const { tools } = await client.listTools()
+      expect(tools.map((t) => t.name)).toEqual(["echo"])
+    } finally {
+      await client.close()
+    }
+  })
+
+  it("keeps independent sessions per client", async () => {
+    const a = await connectClient(handle.url, TOKEN)
+    const b = await connectClient(handle.url, TOKEN)
+    try {
+      expect(a.transport.sessionId).toBeDefined()
+      expect(b.transport.sessionId).toBeDefined()
+      expect(a.transport.sessionId).not.toBe(b.transport.sessionId)
+      expect(handle.sessionCount()).toBe(2)
+
+      await a.transport.terminateSession()
+      expect(handle.sessionCount()).toBe(1)
+      await expect(b.client.listTools()).resolves.toBeDefined()
+    } finally {
+      await a.client.close()
+      await b.client.close()
+    }
+  })
+
+  it("closes sessions of clients that went away without ending them", async () => {
+    const idle = await startHttpTransport({
+      port: 0,
+      host: "127.0.0.1",
+      authToken: TOKEN,
+      createServer: createTestServer,
+      sessionIdleMs: 50,
+    })
+    try {
+      // Initialize, then disappear without DELETE
+      const response = await fetch(idle.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          Authorization: `Bearer ${TOKEN}`,
+        },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: {
+            protocolVersion: "2025-06-18",
+            capabilities: {},
+            clientInfo: { name: "crashy", version: "0.0.0" },
+          },
+        }),
+      })
+      await response.text()
+      expect(idle.sessionCount()).toBe(1)
+
+      await expect.poll(() => idle.sessionCount(), { timeout: 2000 }).toBe(0)
+    } finally {
+      await idle.close()
+    }
+  })
+
+  it("generates a token when none is configured", async () => {
+    const generated = await startHttpTransport({
+      port: 0,
+      host: "127.0.0.1",
+      createServer: createTestServer,
+    })
+    try {
+      expect(generated.authToken.length).toBeGreaterThanOrEqual(32)
+    } finally {
+      await generated.close()
+    }
+  })
+})
+
+describe("CLI options", () => {
+  it("defaults to stdio", () => {
+    expect(parseCliOptions([], {})).toMatchObject({ transport: "stdio" })
+  })
+
+  it("parses http transport flags in both forms", () => {
+    expect(
+      parseCliOptions(["--transport", "http", "--port=4100", "--host", "0.0.0.0"], {})
+    ).toEqual({
+      transport: "http",
+      port: 4100,
+      host: "0.0.0.0",
+      authToken: undefined,
+      dynamicTools: false,
+      watch: false,
+    })
+  })
+
+  it("falls back to the auth token environment variable", () => {
+    const options = parseCliOptions(["--transport=http", "--port=4100"], {
+      NEXT_DEVTOOLS_MCP_AUTH_TOKEN: "from-env",
+    })
+    expect(options.authToken).toBe("from-env")
+  })
+
+  it("requires a port for the http transport", () => {
+    expect(() => parseCliOptions(["--transport", "http"], {})).toThrow(/--port is required/)
+  })
+
+  it("enables dynamic tools from the flag or the environment", () => {
+    expect(parseCliOptions(["--dynamic-tools"], {}).dynamicTools).toBe(true)
+    expect(parseCliOptions([], { NEXT_DEVTOOLS_DYNAMIC_TOOLS: "1" }).dynamicTools).toBe(true)
+    expect(parseCliOptions([], {}).dynamicTools).toBe(false)
+  })
+
+  it("enables the background watcher from the flag or the environment", () => {
+    expect(parseCliOptions(["--watch"], {}).watch).toBe(true)
+    expect(parseCliOptions([], { NEXT_DEVTOOLS_WATCH: "true" }).watch).toBe(true)
+    expect(parseCliOptions([], {}).watch).toBe(false)
+  })
+
+  it("reads explicit values of boolean flags", () => {
+    expect(parseCliOptions(["--watch=false"], {}).watch).toBe(false)
+    expect(parseCliOptions(["--dynamic-tools=0"], {}).dynamicTools).toBe(false)
+    expect(parseCliOptions(["--dynamic-tools=1"], {}).dynamicTools).toBe(true)
+    expect(parseCliOptions(["--watch=false"], { NEXT_DEVTOOLS_WATCH: "1" }).watch).toBe(false)
+    expect(() => parseCliOptions(["--watch=yes"], {})).toThrow(/Invalid --watch 'yes'/)
+  })
+
+  it("rejects unknown transports", () => {
+    expect(() => parseCliOptions(["--transport", "ws"], {})).toThrow(/Invalid --transport/)
+  })
+
+  it("warns about unknown arguments and ignores them", () => {
+    const warn = vi.fn()
+    const options = parseCliOptions(["--verbose", "stdio", "--port=4100", "--debug=1"], {}, warn)
+
+    expect(options).toMatchObject({ transport: "stdio", port: 4100 })
+    expect(warn.mock.calls.map(([message]) => message)).toEqual([
+      "Ignoring unknown argument: --verbose",
+      "Ignoring unknown argument: stdio",
+      "Ignoring unknown argument: --debug=1",
+    ])
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach } from "vitest"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { readMcpResponse, SseDecoder } from "../../src/_internal/mcp-response-parser.js"
+import { callNextJsTool } from "../../src/_internal/nextjs-runtime-manager.js"
+
+function sseResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } })
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  })
+}
+
+describe("SseDecoder", () => {
+  it("joins multi-line data fields and honours event types and comments", () => {
+    const decoder = new SseDecoder()
+    const events = decoder.push(
+      ': keep-alive\nevent: message\ndata: {"a":\ndata: 1}\n\nevent: ping\ndata:x\n\n'
+    )
+    expect(events).toEqual([
+      { event: "message", data: '{"a":\n1}' },
+      { event: "ping", data: "x" },
+    ])
+  })
+
+  it("handles CRLF and line breaks split across chunks", () => {
+    const decoder = new SseDecoder()
+    expect(decoder.push("data: one\r")).toEqual([])
+    expect(decoder.push("\n\r\ndata: two")).toEqual([{ event: "message", data: "one" }])
+    expect(decoder.end()).toEqual([{ event: "message", data: "two" }])
+  })
+})
+
+describe("readMcpResponse", () => {
+  it("parses a plain application/json response", async () => {
+    const message = await readMcpResponse(
+      jsonResponse({ jsonrpc: "2.0", id: 7, result: { tools: [] } }),
+      7
+    )
+    expect(message.result).toEqual({ tools: [] })
+  })
+
+  it("finds the response inside a JSON batch and forwards notifications", async () => {
+    const notifications: unknown[] = []
+    const message = await readMcpResponse(
+      jsonResponse([
+        { jsonrpc: "2.0", method: "notifications/message", params: { level: "info" } },
+        { jsonrpc: "2.0", id: 3, result: { ok: true } },
+      ]),
+      3,
+      { onNotification: (n) => notifications.push(n) }
+    )
+    expect(message.result).toEqual({ ok: true })
+    expect(notifications).toHaveLength(1)
+  })
+
+  it("skips interleaved notifications and other ids in an event stream", async () => {
+    const notifications: string[] = []
+    const message = await readMcpResponse(
+      sseResponse([
+        'event: message\ndata: {"jsonrpc":"2.0","method":"notifications/progress","params":{"progress":1}}\n\n',
+        'data: {"jsonrpc":"2.0","id":99,"result":{"other":true}}\n\n',
+        'data: {"jsonrpc":"2.0",\ndata:  "id":1,"result":{"content":[]}}\n\n',
+      ]),
+      1,
+      { onNotification: (n) => notifications.push(n.method) }
+    )
+    expect(message).toEqual({ jsonrpc: "2.0", id: 1, result: { content: [] } })
+    expect(notifications).toEqual(["notifications/progress"])
+  })
+
+  it("returns JSON-RPC errors to the caller", async () => {
+    const message = await readMcpResponse(
+      sseResponse(['data: {"jsonrpc":"2.0","id":"a","error":{"code":-32601,"message":"nope"}}\n\n']),
+      "a"
+    )
+    expect(message.error).toEqual({ code: -32601, message: "nope" })
+  })
+
+  it("rejects streams that end without a response", async () => {
+    await expect(
+      readMcpResponse(sseResponse(['data: {"jsonrpc":"2.0","method":"notifications/x"}\n\n']), 1)
+    ).rejects.toThrow(/stream ended without a response to request 1/)
+  })
+
+  it("rejects unexpected content types and malformed payloads", async () => {
+    await expect(
+      readMcpResponse(new Response("hi", { headers: { "Content-Type": "text/html" } }), 1)
+    ).rejects.toThrow(/unexpected content type/)
+    await expect(readMcpResponse(sseResponse(["data: {nope\n\n"]), 1)).rejects.toThrow(
+      /malformed JSON/
+    )
+  })
+})
+
+describe("callNextJsTool response handling", () => {
+  let server: Server | undefined
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+    server = undefined
+  })
+
+  it("reads a tool result from an endpoint that streams notifications first", async () => {
+    server = createServer((req, res) => {
+      let body = ""
+      req.on("data", (chunk) => (body += chunk))
+      req.on("end", () => {
+        const { id, method } = JSON.parse(body)
+        if (method === "initialize") {
+          res.writeHead(200, { "Content-Type": "application/json" })
+          res.end(JSON.stringify({ jsonrpc: "2.0", id, error: { code: -32601, message: "nope" } }))
+          return
+        }
+        res.writeHead(200, { "Content-Type": "text/event-stream" })
+        res.write('data: {"jsonrpc":"2.0","method":"notifications/message","params":{}}\n\n')
+        res.end(`data: ${JSON.stringify({ jsonrpc: "2.0", id, result: { content: [] } })}\n\n`)
+      })
+    })
+    await new Promise<void>((resolve) => server!.listen(0, "localhost", resolve))
+    const { port } = server.address() as AddressInfo
+
+    const notifications: string[] = []
+    const result = await callNextJsTool(port, "get_errors", {}, {
+      onNotification: (n) => notifications.push(n.method),
+    })
+
+    expect(result).toEqual({ content: [] })
+    expect(notifications).toEqual(["notifications/message"])
+  })
+})
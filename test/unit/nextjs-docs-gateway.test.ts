@@ -45,7 +45,7 @@ describe("nextjs_docs gateway", () => {
 
   it("points at bundled docs for installed Next.js 16+", async () => {
     tmpDir = makeProject({ installed: "16.3.0", withDocs: true })
-    const result = JSON.parse(await handler({ project_path: tmpDir }))
+    const result = (await handler({ project_path: tmpDir })).structuredContent
 
     expect(result.status).toBe("use_bundled_docs")
     expect(result.nextVersion).toBe("16.3.0")
@@ -56,24 +56,26 @@ describe("nextjs_docs gateway", () => {
 
   it("treats a canary install as modern", async () => {
     tmpDir = makeProject({ installed: "16.0.0-canary.49", withDocs: true })
-    const result = JSON.parse(await handler({ project_path: tmpDir }))
+    const result = (await handler({ project_path: tmpDir })).structuredContent
     expect(result.status).toBe("use_bundled_docs")
   })
 
   it("prefers the installed version over the declared range", async () => {
     // Declares ^15 but actually has 16 installed -> should use installed (modern).
     tmpDir = makeProject({ declared: "^15.0.0", installed: "16.1.0", withDocs: true })
-    const result = JSON.parse(await handler({ project_path: tmpDir }))
+    const result = (await handler({ project_path: tmpDir })).structuredContent
     expect(result.status).toBe("use_bundled_docs")
     expect(result.versionSource).toBe("installed")
   })
 
   it("recommends the codemod for Next.js below 16", async () => {
     tmpDir = makeProject({ declared: "15.2.0", installed: "15.2.0" })
-    const result = JSON.parse(await handler({ project_path: tmpDir }))
+    const result = (await handler({ project_path: tmpDir })).structuredContent
 
     expect(result.status).toBe("upgrade_required")
     expect(result.nextVersion).toBe("15.2.0")
+    expect(result.code).toBe("NEXT_VERSION_TOO_OLD")
+    expect(result.details).toMatchObject({ nextVersion: "15.2.0", requiredMajor: 16 })
     expect(JSON.stringify(result.instructions)).toContain(
       "npx @next/codemod@latest upgrade latest"
     )
@@ -81,21 +83,22 @@ describe("nextjs_docs gateway", () => {
 
   it("recommends upgrade when no Next.js is detected", async () => {
     tmpDir = makeProject({})
-    const result = JSON.parse(await handler({ project_path: tmpDir }))
+    const result = (await handler({ project_path: tmpDir })).structuredContent
     expect(result.status).toBe("upgrade_required")
     expect(result.nextVersion).toBeNull()
+    expect(result.code).toBe("NEXT_NOT_FOUND")
   })
 
   it("flags missing docs dir even on a modern version", async () => {
     tmpDir = makeProject({ installed: "16.0.0", withDocs: false })
-    const result = JSON.parse(await handler({ project_path: tmpDir }))
+    const result = (await handler({ project_path: tmpDir })).structuredContent
     expect(result.status).toBe("use_bundled_docs")
     expect(result.docsAvailable).toBe(false)
   })
 
   it("includes a grep hint when a topic is provided", async () => {
     tmpDir = makeProject({ installed: "16.2.0", withDocs: true })
-    const result = JSON.parse(await handler({ project_path: tmpDir, topic: "use cache" }))
+    const result = (await handler({ project_path: tmpDir, topic: "use cache" })).structuredContent
     expect(JSON.stringify(result.instructions)).toContain("use cache")
   })
 })
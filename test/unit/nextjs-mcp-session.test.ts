@@ -0,0 +1,169 @@
+import { describe, it, expect, afterEach } from "vitest"
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { NextJsMCPSession, McpHttpError } from "../../src/_internal/nextjs-mcp-session.js"
+
+interface ReceivedRequest {
+  method: string
+  id?: number
+  headers: IncomingHttpHeaders
+}
+
+type Reply = { status?: number; headers?: Record<string, string>; body?: unknown }
+
+describe("NextJsMCPSession", () => {
+  let server: Server | undefined
+  let received: ReceivedRequest[]
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+    server = undefined
+  })
+
+  async function startEndpoint(
+    reply: (request: ReceivedRequest) => Reply
+  ): Promise<NextJsMCPSession> {
+    received = []
+    server = createServer((req, res) => {
+      let body = ""
+      req.on("data", (chunk) => (body += chunk))
+      req.on("end", () => {
+        const { method, id } = JSON.parse(body)
+        const request = { method, id, headers: req.headers }
+        received.push(request)
+        const { status = 200, headers = {}, body: replyBody } = reply(request)
+        if (replyBody === undefined) {
+          res.writeHead(status === 200 ? 202 : status, headers)
+          res.end()
+          return
+        }
+        res.writeHead(status, { "Content-Type": "application/json", ...headers })
+        res.end(JSON.stringify(replyBody))
+      })
+    })
+    await new Promise<void>((resolve) => server!.listen(0, "localhost", resolve))
+    const { port } = server.address() as AddressInfo
+    return new NextJsMCPSession(async () => ({
+      url: `http://localhost:${port}/_next/mcp`,
+      fetchOptions: {},
+    }))
+  }
+
+  const initializeResult = {
+    protocolVersion: "2025-06-18",
+    capabilities: { tools: {} },
+    serverInfo: { name: "Next.js", version: "16.1.0" },
+  }
+
+  it("performs the handshake once and reuses the session id", async () => {
+    const session = await startEndpoint(({ method, id }) => {
+      if (method === "initialize") {
+        return {
+          headers: { "Mcp-Session-Id": "abc" },
+          body: { jsonrpc: "2.0", id, result: initializeResult },
+        }
+      }
+      if (method === "notifications/initialized") return {}
+      return { body: { jsonrpc: "2.0", id, result: { tools: [] } } }
+    })
+
+    await session.request("tools/list")
+    await session.request("tools/list")
+
+    expect(received.map((r) => r.method)).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+      "tools/list",
+    ])
+    expect(received[0].headers["mcp-session-id"]).toBeUndefined()
+    for (const request of received.slice(1)) {
+      expect(request.headers["mcp-session-id"]).toBe("abc")
+      expect(request.headers["mcp-protocol-version"]).toBe("2025-06-18")
+    }
+    expect(session.serverInfo).toEqual({ name: "Next.js", version: "16.1.0" })
+    expect(session.capabilities).toEqual({ tools: {} })
+  })
+
+  it("uses distinct ids for concurrent requests", async () => {
+    const session = await startEndpoint(({ method, id }) => {
+      if (method === "initialize") return { body: { jsonrpc: "2.0", id, result: initializeResult } }
+      if (method === "notifications/initialized") return {}
+      return { body: { jsonrpc: "2.0", id, result: { id } } }
+    })
+
+    const results = await Promise.all([
+      session.request("tools/list"),
+      session.request("tools/list"),
+      session.request("tools/list"),
+    ])
+
+    const ids = results.map((r) => r.result?.id)
+    expect(new Set(ids).size).toBe(3)
+    expect(received.filter((r) => r.method === "initialize")).toHaveLength(1)
+  })
+
+  it("keeps the shared handshake going when the caller that started it gives up", async () => {
+    const session = await startEndpoint(({ method, id }) => {
+      if (method === "initialize") return { body: { jsonrpc: "2.0", id, result: initializeResult } }
+      if (method === "notifications/initialized") return {}
+      return { body: { jsonrpc: "2.0", id, result: { tools: [] } } }
+    })
+
+    const controller = new AbortController()
+    const first = session.request("tools/list", {}, { signal: controller.signal })
+    const second = session.request("tools/list")
+    controller.abort()
+
+    await expect(first).rejects.toThrow()
+    expect((await second).result).toEqual({ tools: [] })
+    expect(received.filter((r) => r.method === "initialize")).toHaveLength(1)
+  })
+
+  it("re-initializes and retries when the server forgets the session", async () => {
+    let sessionCounter = 0
+    let restarted = false
+    const session = await startEndpoint(({ method, id, headers }) => {
+      if (method === "initialize") {
+        sessionCounter++
+        return {
+          headers: { "Mcp-Session-Id": `s${sessionCounter}` },
+          body: { jsonrpc: "2.0", id, result: initializeResult },
+        }
+      }
+      if (method === "notifications/initialized") return {}
+      if (restarted && headers["mcp-session-id"] === "s1") return { status: 404, body: {} }
+      return { body: { jsonrpc: "2.0", id, result: { session: headers["mcp-session-id"] } } }
+    })
+
+    expect((await session.request("tools/list")).result).toEqual({ session: "s1" })
+    restarted = true
+    expect((await session.request("tools/list")).result).toEqual({ session: "s2" })
+  })
+
+  it("falls back to bare requests when initialize is not implemented", async () => {
+    const session = await startEndpoint(({ method, id }) => {
+      if (method === "initialize") {
+        return {
+          body: { jsonrpc: "2.0", id, error: { code: -32601, message: "Method not found" } },
+        }
+      }
+      return { body: { jsonrpc: "2.0", id, result: { tools: [] } } }
+    })
+
+    const response = await session.request("tools/list")
+
+    expect(response.result).toEqual({ tools: [] })
+    expect(session.handshake).toBe(false)
+    expect(session.serverInfo).toBeUndefined()
+    expect(received.map((r) => r.method)).toEqual(["initialize", "tools/list"])
+  })
+
+  it("surfaces a missing endpoint as an HTTP error", async () => {
+    const session = await startEndpoint(() => ({ status: 404, body: {} }))
+
+    const error = await session.request("tools/list").catch((e) => e)
+    expect(error).toBeInstanceOf(McpHttpError)
+    expect(error.status).toBe(404)
+  })
+})
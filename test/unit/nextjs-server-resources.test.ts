@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+
+const getAllAvailableServersMock = vi.fn()
+const listNextJsToolsMock = vi.fn()
+const forgetNextJsServerMock = vi.fn()
+const forgetToolSchemasMock = vi.fn()
+
+vi.mock("../../src/_internal/nextjs-runtime-manager.js", () => ({
+  getAllAvailableServers: (...args: unknown[]) => getAllAvailableServersMock(...args),
+  listNextJsTools: (...args: unknown[]) => listNextJsToolsMock(...args),
+  forgetNextJsServer: (...args: unknown[]) => forgetNextJsServerMock(...args),
+  detectProtocol: async () => "http",
+}))
+vi.mock("../../src/_internal/tool-args-validation.js", () => ({
+  forgetToolSchemas: (...args: unknown[]) => forgetToolSchemasMock(...args),
+}))
+
+import {
+  listResources,
+  readResource,
+  parseServerResourceUri,
+} from "../../src/resources/nextjs-servers.js"
+import {
+  onServersChanged,
+  pollServers,
+  getWatchedServers,
+  getCurrentServers,
+} from "../../src/_internal/server-watcher.js"
+
+const SERVER_3000 = { host: "localhost", port: 3000, pid: 111, command: "next-server (v16.0.0)" }
+const SERVER_3001 = { host: "localhost", port: 3001, pid: 222, command: "next-server (v16.0.0)" }
+
+describe("nextjs server resources", () => {
+  beforeEach(() => {
+    getAllAvailableServersMock.mockReset()
+    listNextJsToolsMock.mockReset()
+  })
+
+  it("lists info and tools resources for every discovered server", async () => {
+    getAllAvailableServersMock.mockResolvedValue([SERVER_3000, SERVER_3001])
+
+    const resources = await listResources()
+    expect(resources.map((r) => r.uri)).toEqual([
+      "nextjs://localhost:3000/info",
+      "nextjs://localhost:3000/tools",
+      "nextjs://localhost:3001/info",
+      "nextjs://localhost:3001/tools",
+    ])
+  })
+
+  it("parses server resource URIs", () => {
+    expect(parseServerResourceUri("nextjs://localhost:3000/tools")).toEqual({
+      host: "localhost",
+      port: 3000,
+      kind: "tools",
+    })
+    expect(parseServerResourceUri("nextjs://localhost:3000/other")).toBeNull()
+    expect(parseServerResourceUri("https://localhost:3000/info")).toBeNull()
+    expect(parseServerResourceUri("not a uri")).toBeNull()
+  })
+
+  it("brackets IPv6 hosts in resource URIs and parses them back", async () => {
+    getAllAvailableServersMock.mockResolvedValue([{ ...SERVER_3000, host: "::1" }])
+
+    const resources = await listResources()
+    expect(resources[0].uri).toBe("nextjs://[::1]:3000/info")
+    expect(parseServerResourceUri(resources[0].uri)).toEqual({
+      host: "::1",
+      port: 3000,
+      kind: "info",
+    })
+
+    const info = JSON.parse((await readResource(resources[0].uri))!)
+    expect(info).toMatchObject({ host: "::1", url: "http://[::1]:3000" })
+  })
+
+  it("tells servers with the same port on different hosts apart", async () => {
+    getAllAvailableServersMock.mockResolvedValue([
+      SERVER_3000,
+      { ...SERVER_3000, host: "10.0.0.5", pid: 999 },
+    ])
+
+    const info = JSON.parse((await readResource("nextjs://10.0.0.5:3000/info"))!)
+    expect(info).toMatchObject({ host: "10.0.0.5", pid: 999, url: "http://10.0.0.5:3000" })
+  })
+
+  it("reads live server info", async () => {
+    getAllAvailableServersMock.mockResolvedValue([SERVER_3000])
+
+    const info = JSON.parse((await readResource("nextjs://localhost:3000/info"))!)
+    expect(info).toMatchObject({
+      port: 3000,
+      pid: 111,
+      url: "http://localhost:3000",
+      mcpEndpoint: "http://localhost:3000/_next/mcp",
+    })
+  })
+
+  it("reads the live tool list", async () => {
+    getAllAvailableServersMock.mockResolvedValue([SERVER_3000])
+    listNextJsToolsMock.mockResolvedValue([{ name: "get_errors", description: "Get errors" }])
+
+    const tools = JSON.parse((await readResource("nextjs://localhost:3000/tools"))!)
+    expect(listNextJsToolsMock).toHaveBeenCalledWith(3000, "localhost")
+    expect(tools.toolCount).toBe(1)
+    expect(tools.tools[0].name).toBe("get_errors")
+  })
+
+  it("returns null for servers that are no longer running", async () => {
+    getAllAvailableServersMock.mockResolvedValue([])
+    expect(await readResource("nextjs://localhost:3000/info")).toBeNull()
+  })
+})
+
+describe("server watcher", () => {
+  beforeEach(() => {
+    getAllAvailableServersMock.mockReset()
+    forgetNextJsServerMock.mockReset()
+  })
+
+  it("notifies listeners when servers appear and disappear", async () => {
+    getAllAvailableServersMock.mockResolvedValue([SERVER_3000])
+    const listener = vi.fn()
+    const stop = onServersChanged(listener)
+
+    try {
+      // Baseline poll starts on subscribe; awaiting joins it
+      await pollServers()
+      expect(listener).not.toHaveBeenCalled()
+
+      getAllAvailableServersMock.mockResolvedValue([SERVER_3001])
+      await pollServers()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      const change = listener.mock.calls[0][0]
+      expect(change.added.map((s: { port: number }) => s.port)).toEqual([3001])
+      expect(change.removed.map((s: { port: number }) => s.port)).toEqual([3000])
+    } finally {
+      stop()
+    }
+  })
+
+  it("detects a restart on the same port and forgets the stale session", async () => {
+    getAllAvailableServersMock.mockResolvedValue([SERVER_3000])
+    const listener = vi.fn()
+    const stop = onServersChanged(listener)
+
+    try {
+      await pollServers()
+      expect(getWatchedServers()).toMatchObject([{ host: "localhost", port: 3000, pid: 111 }])
+
+      getAllAvailableServersMock.mockResolvedValue([{ ...SERVER_3000, pid: 333 }])
+      await pollServers()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      const change = listener.mock.calls[0][0]
+      expect(change.added).toEqual([])
+      expect(change.removed).toEqual([])
+      expect(change.restarted).toMatchObject([{ port: 3000, pid: 333 }])
+      expect(forgetNextJsServerMock).toHaveBeenCalledWith(3000, "localhost")
+      expect(forgetToolSchemasMock).toHaveBeenCalledWith(3000, "localhost")
+      expect(getWatchedServers()).toMatchObject([{ port: 3000, pid: 333 }])
+    } finally {
+      stop()
+    }
+  })
+
+  it("does not treat a probe without a pid as a restart", async () => {
+    getAllAvailableServersMock.mockResolvedValue([SERVER_3000])
+    const listener = vi.fn()
+    const stop = onServersChanged(listener)
+
+    try {
+      await pollServers()
+      getAllAvailableServersMock.mockResolvedValue([
+        { host: "localhost", port: 3000, pid: 0, command: "" },
+      ])
+      await pollServers()
+
+      expect(listener).not.toHaveBeenCalled()
+      expect(getWatchedServers()).toMatchObject([{ port: 3000, pid: 111 }])
+    } finally {
+      stop()
+    }
+  })
+
+  it("answers from the registry while watching, from discovery otherwise", async () => {
+    getAllAvailableServersMock.mockResolvedValue([SERVER_3000])
+    const stop = onServersChanged(vi.fn())
+
+    try {
+      await pollServers()
+      getAllAvailableServersMock.mockClear()
+
+      expect(await getCurrentServers()).toMatchObject([{ port: 3000, pid: 111 }])
+      expect(getAllAvailableServersMock).not.toHaveBeenCalled()
+    } finally {
+      stop()
+    }
+
+    getAllAvailableServersMock.mockResolvedValue([SERVER_3001])
+    expect(await getCurrentServers()).toEqual([SERVER_3001])
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { getListeningPortsFromProc, parseListeningSockets } from "../../src/_internal/proc-net.js"
+
+// A synthetic /proc: pid 4242 is a dev server listening on 3000 (IPv4) and
+// 9229 (IPv6, the inspector) with one established connection; pid 5151 owns
+// another listener; pid 6060 has no sockets. They share a network namespace,
+// except pid 7070, which listens on 8080 in a namespace of its own.
+let procRoot: string
+
+const HEADER =
+  "  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode"
+
+const TCP = [
+  HEADER,
+  // 0.0.0.0:3000 LISTEN, inode 1111
+  "   0: 00000000:0BB8 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 1111 1 0000000000000000 100 0 0 10 0",
+  // 127.0.0.1:3000 <-> 127.0.0.1:51234 ESTABLISHED, inode 2222
+  "   1: 0100007F:0BB8 0100007F:C822 01 00000000:00000000 00:00000000 00000000  1000        0 2222 1 0000000000000000 20 4 30 10 -1",
+  // 0.0.0.0:5432 LISTEN, inode 4444 (another process)
+  "   2: 00000000:1538 00000000:0000 0A 00000000:00000000 00:00000000 00000000   999        0 4444 1 0000000000000000 100 0 0 10 0",
+].join("\n")
+
+const TCP6 = [
+  HEADER,
+  // [::1]:9229 LISTEN, inode 3333
+  "   0: 00000000000000000000000001000000:240D 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 3333 1 0000000000000000 100 0 0 10 0",
+  // [::]:3000 LISTEN, inode 5555 (same port, dual-stack)
+  "   1: 00000000000000000000000000000000:0BB8 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 5555 1 0000000000000000 100 0 0 10 0",
+].join("\n")
+
+// [::]:8080 LISTEN, inode 6666
+const OTHER_NAMESPACE_TCP6 = [
+  HEADER,
+  "   0: 00000000000000000000000000000000:1F90 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 6666 1 0000000000000000 100 0 0 10 0",
+].join("\n")
+
+function fakeProcess(
+  pid: number,
+  fds: Record<string, string>,
+  tables: Record<string, string> = { tcp: TCP, tcp6: TCP6 }
+) {
+  const fdDir = path.join(procRoot, String(pid), "fd")
+  fs.mkdirSync(fdDir, { recursive: true })
+  for (const [fd, target] of Object.entries(fds)) {
+    fs.symlinkSync(target, path.join(fdDir, fd))
+  }
+  const netDir = path.join(procRoot, String(pid), "net")
+  fs.mkdirSync(netDir)
+  for (const [table, contents] of Object.entries(tables)) {
+    fs.writeFileSync(path.join(netDir, table), contents)
+  }
+}
+
+beforeAll(() => {
+  procRoot = fs.mkdtempSync(path.join(os.tmpdir(), "proc-net-"))
+  // The reader's own namespace, which must not be consulted
+  fs.mkdirSync(path.join(procRoot, "net"))
+  fs.writeFileSync(path.join(procRoot, "net", "tcp"), TCP)
+  fs.writeFileSync(path.join(procRoot, "net", "tcp6"), TCP6)
+
+  fakeProcess(4242, {
+    "0": "/dev/null",
+    "1": "pipe:[777]",
+    "20": "socket:[1111]",
+    "21": "socket:[2222]",
+    "22": "socket:[3333]",
+    "23": "socket:[5555]",
+  })
+  fakeProcess(5151, { "3": "socket:[4444]" })
+  fakeProcess(6060, { "0": "/dev/null" })
+  fakeProcess(7070, { "3": "socket:[6666]" }, { tcp: HEADER, tcp6: OTHER_NAMESPACE_TCP6 })
+})
+
+afterAll(() => {
+  fs.rmSync(procRoot, { recursive: true, force: true })
+})
+
+describe("parseListeningSockets", () => {
+  it("keeps only LISTEN entries, with hex ports decoded", () => {
+    expect(parseListeningSockets(TCP)).toEqual([
+      { port: 3000, inode: "1111" },
+      { port: 5432, inode: "4444" },
+    ])
+    expect(parseListeningSockets(TCP6)).toEqual([
+      { port: 9229, inode: "3333" },
+      { port: 3000, inode: "5555" },
+    ])
+  })
+
+  it("ignores the header and blank lines", () => {
+    expect(parseListeningSockets(`${HEADER}\n\n`)).toEqual([])
+  })
+})
+
+describe("getListeningPortsFromProc", () => {
+  it("maps a process's socket fds to the ports it listens on", async () => {
+    expect(await getListeningPortsFromProc(4242, { procRoot })).toEqual([3000, 9229])
+  })
+
+  it("does not report sockets owned by other processes", async () => {
+    expect(await getListeningPortsFromProc(5151, { procRoot })).toEqual([5432])
+    expect(await getListeningPortsFromProc(6060, { procRoot })).toEqual([])
+  })
+
+  it("reads the tables of the process's own network namespace", async () => {
+    expect(await getListeningPortsFromProc(7070, { procRoot })).toEqual([8080])
+  })
+
+  it("returns nothing for a process that does not exist", async () => {
+    expect(await getListeningPortsFromProc(9999, { procRoot })).toEqual([])
+  })
+
+  it("still reads IPv4 sockets when tcp6 is missing", async () => {
+    const ipv4Only = fs.mkdtempSync(path.join(os.tmpdir(), "proc-net-v4-"))
+    try {
+      fs.cpSync(path.join(procRoot, "4242"), path.join(ipv4Only, "4242"), {
+        recursive: true,
+        verbatimSymlinks: true,
+      })
+      fs.rmSync(path.join(ipv4Only, "4242", "net", "tcp6"))
+
+      expect(await getListeningPortsFromProc(4242, { procRoot: ipv4Only })).toEqual([3000])
+    } finally {
+      fs.rmSync(ipv4Only, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest"
+import path from "node:path"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+
+// Fake next-server processes, each listening on real local ports:
+// - a Next.js 16 dev server on three ports: the inspector, some unrelated
+//   socket, and (last) the port that actually serves /_next/mcp. Ports 1 and 2
+//   are closed, so probing them fails fast.
+// - servers whose /_next/mcp is a 404: a Next.js 14 project, a `next start`
+//   of a Next.js 16 project, and one whose project can't be determined.
+const { processes } = vi.hoisted(() => ({
+  processes: [] as Array<{ pid: number; ppid: number; cmd: string; ports: number[] }>,
+}))
+
+vi.mock("../../src/_internal/find-process-import.js", () => ({
+  findProcess: async (type: string, value: number | string) => {
+    const parents = processes.filter((p) => p.ports.length === 0)
+    if (type === "pid") return parents.filter((p) => p.pid === value)
+    return processes
+      .filter((p) => p.ports.length > 0)
+      .map((p) => ({ ...p, name: process.platform === "win32" ? "node.exe" : "next-server" }))
+  },
+}))
+vi.mock("../../src/_internal/proc-net.js", () => ({
+  getListeningPortsFromProc: async (pid: number) =>
+    processes.find((p) => p.pid === pid)?.ports ?? [],
+}))
+vi.mock("pid-port", () => ({
+  pidToPorts: async (pid: number) => new Set(processes.find((p) => p.pid === pid)?.ports ?? []),
+}))
+
+import {
+  getAllAvailableServers,
+  getIncompatibleServers,
+  probePort,
+} from "../../src/_internal/nextjs-runtime-manager.js"
+
+const FIXTURES = path.join(__dirname, "../fixtures")
+const startServer = (project: string) =>
+  `node ${path.join(FIXTURES, project)}/node_modules/next/dist/server/lib/start-server.js`
+
+const servers: Server[] = []
+let mcpPort: number
+let oldPort: number
+let prodPort: number
+let unknownPort: number
+
+async function listen(handler: Parameters<typeof createServer>[1]): Promise<number> {
+  const server = createServer(handler)
+  servers.push(server)
+  await new Promise<void>((resolve) => server.listen(0, "localhost", resolve))
+  return (server.address() as AddressInfo).port
+}
+
+// Next.js before 16, or `next start`: no MCP endpoint
+const notFound = () =>
+  listen((_req, res) => {
+    res.writeHead(404)
+    res.end()
+  })
+
+beforeAll(async () => {
+  mcpPort = await listen((req, res) => {
+    let body = ""
+    req.on("data", (chunk) => (body += chunk))
+    req.on("end", () => {
+      const { id } = JSON.parse(body)
+      res.writeHead(200, { "Content-Type": "application/json" })
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, result: { tools: [] } }))
+    })
+  })
+  oldPort = await notFound()
+  prodPort = await notFound()
+  unknownPort = await notFound()
+
+  processes.push(
+    {
+      pid: 999_999,
+      ppid: 1,
+      cmd: "next-server (v16.0.0) --inspect=127.0.0.1:1",
+      ports: [1, 2, mcpPort],
+    },
+    { pid: 999_998, ppid: 1, cmd: startServer("nextjs14-minimal"), ports: [oldPort] },
+    { pid: 999_997, ppid: 888_001, cmd: startServer("nextjs16-minimal"), ports: [prodPort] },
+    { pid: 999_996, ppid: 1, cmd: "next-server (v16.1.0)", ports: [unknownPort] },
+    { pid: 888_001, ppid: 1, cmd: "node /app/node_modules/.bin/next start", ports: [] }
+  )
+
+  // Keep port probing away from the servers so only process discovery finds them
+  process.env.NEXT_DEVTOOLS_PORTS = "3"
+})
+
+afterAll(async () => {
+  await Promise.all(
+    servers.map((server) => {
+      server.closeAllConnections()
+      return new Promise<void>((resolve) => server.close(() => resolve()))
+    })
+  )
+  delete process.env.NEXT_DEVTOOLS_PORTS
+})
+
+describe("process discovery", () => {
+  it("probes every port of a process and reports the one serving MCP", async () => {
+    expect(await getAllAvailableServers()).toEqual([
+      {
+        host: "localhost",
+        port: mcpPort,
+        pid: 999_999,
+        command: "next-server (v16.0.0) --inspect=127.0.0.1:1",
+        otherPorts: [
+          { port: 1, kind: "debugger" },
+          { port: 2, kind: "other" },
+        ],
+      },
+    ])
+  }, 20000)
+
+  it("reports Next.js servers without MCP, with the reason and upgrade path", async () => {
+    await getAllAvailableServers()
+    const incompatible = getIncompatibleServers()
+
+    expect(incompatible.find((s) => s.port === oldPort)).toEqual({
+      host: "localhost",
+      port: oldPort,
+      pid: 999_998,
+      command: startServer("nextjs14-minimal"),
+      projectRoot: path.join(FIXTURES, "nextjs14-minimal"),
+      nextVersion: "14.2.33",
+      kind: "version-too-old",
+      reason: "Next.js 14.2 detected, MCP requires 16",
+      upgrade: expect.stringContaining("npx @next/codemod@latest upgrade latest"),
+    })
+    expect(incompatible.find((s) => s.port === prodPort)).toMatchObject({
+      projectRoot: path.join(FIXTURES, "nextjs16-minimal"),
+      nextVersion: "16.0.7",
+      kind: "production-server",
+      upgrade: expect.stringContaining("next dev"),
+    })
+    expect(incompatible.find((s) => s.port === unknownPort)).toMatchObject({
+      kind: "endpoint-missing",
+      reason: "/_next/mcp returned 404",
+    })
+    expect(incompatible).toHaveLength(3)
+  }, 20000)
+
+  it("finds endpoints that reject requests without an MCP session", async () => {
+    const sessionPort = await listen((_req, res) => {
+      res.writeHead(400, { "Content-Type": "application/json" })
+      res.end(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id: null,
+          error: { code: -32000, message: "Bad Request: Server not initialized" },
+        })
+      )
+    })
+    const otherPort = await listen((_req, res) => {
+      res.writeHead(400, { "Content-Type": "text/html" })
+      res.end("<h1>Bad Request</h1>")
+    })
+
+    expect(await probePort(sessionPort)).toBe("http")
+    expect(await probePort(otherPort)).toBeNull()
+  }, 20000)
+
+  it("does not remember the protocol of a port that isn't serving MCP yet", async () => {
+    let requests = 0
+    const port = await listen((_req, res) => {
+      requests++
+      res.writeHead(400, { "Content-Type": "text/html" })
+      res.end("<h1>Starting</h1>")
+    })
+
+    expect(await probePort(port)).toBeNull()
+    expect(await probePort(port)).toBeNull()
+    // One plain HTTP request per probe; a cached protocol would add a recheck
+    expect(requests).toBe(2)
+  }, 20000)
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import {
+  resolveProjectRoot,
+  findNextProjectRoot,
+  projectDirsFromCommand,
+  isSameProject,
+  readNextVersion,
+} from "../../src/_internal/project-root.js"
+
+// A monorepo with two Next.js apps and a synthetic /proc whose entries point
+// each "process" at a working directory inside it.
+let tmp: string
+let monorepo: string
+let procRoot: string
+
+function writePackageJson(dir: string, pkg: object) {
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(path.join(dir, "package.json"), JSON.stringify(pkg))
+}
+
+function fakeProcess(pid: number, cwd: string) {
+  fs.mkdirSync(path.join(procRoot, String(pid)), { recursive: true })
+  fs.symlinkSync(cwd, path.join(procRoot, String(pid), "cwd"))
+}
+
+beforeAll(() => {
+  tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "project-root-")))
+  monorepo = path.join(tmp, "monorepo")
+  procRoot = path.join(tmp, "proc")
+
+  writePackageJson(monorepo, { name: "monorepo", private: true })
+  writePackageJson(path.join(monorepo, "apps/web"), { dependencies: { next: "16.0.0" } })
+  writePackageJson(path.join(monorepo, "apps/docs"), { devDependencies: { next: "16.0.0" } })
+  writePackageJson(path.join(monorepo, "packages/ui"), { dependencies: { react: "19.0.0" } })
+  fs.mkdirSync(path.join(monorepo, "apps/web/.next"), { recursive: true })
+
+  fakeProcess(101, path.join(monorepo, "apps/web"))
+  fakeProcess(102, path.join(monorepo, "apps/web/.next"))
+  fakeProcess(103, path.join(monorepo, "packages/ui"))
+})
+
+afterAll(() => {
+  fs.rmSync(tmp, { recursive: true, force: true })
+})
+
+describe("project root resolution", () => {
+  it("uses the process cwd from procfs", async () => {
+    expect(await resolveProjectRoot(101, "next-server (v16.0.0)", { procRoot })).toBe(
+      path.join(monorepo, "apps/web")
+    )
+  })
+
+  it("walks up from the cwd to the nearest package.json that depends on next", async () => {
+    expect(await resolveProjectRoot(102, "next-server (v16.0.0)", { procRoot })).toBe(
+      path.join(monorepo, "apps/web")
+    )
+  })
+
+  it("falls back to paths on the command line", async () => {
+    const command = `node ${monorepo}/apps/docs/node_modules/next/dist/server/lib/start-server.js`
+    expect(await resolveProjectRoot(999, command, { procRoot })).toBe(
+      path.join(monorepo, "apps/docs")
+    )
+    expect(projectDirsFromCommand(command)).toEqual([path.join(monorepo, "apps/docs")])
+  })
+
+  it("returns null when no enclosing package depends on next", async () => {
+    expect(await resolveProjectRoot(103, "next-server", { procRoot })).toBeNull()
+    expect(await findNextProjectRoot(path.join(monorepo, "packages/ui"))).toBeNull()
+  })
+
+  it("matches paths inside a project and monorepo roots around it", () => {
+    const web = path.join(monorepo, "apps/web")
+    expect(isSameProject(web, path.join(web, "app/page.tsx"))).toBe(true)
+    expect(isSameProject(web, monorepo)).toBe(true)
+    expect(isSameProject(web, path.join(monorepo, "apps/docs"))).toBe(false)
+    expect(isSameProject(web, `${web}-old`)).toBe(false)
+  })
+})
+
+describe("Next.js version of a project", () => {
+  it("prefers the installed version, including one hoisted to a parent", async () => {
+    writePackageJson(path.join(monorepo, "node_modules/next"), { name: "next", version: "16.1.2" })
+    try {
+      expect(await readNextVersion(path.join(monorepo, "apps/web"))).toBe("16.1.2")
+    } finally {
+      fs.rmSync(path.join(monorepo, "node_modules"), { recursive: true, force: true })
+    }
+  })
+
+  it("falls back to the version package.json asks for", async () => {
+    const fixture = path.join(__dirname, "../fixtures/nextjs14-minimal")
+    expect(await readNextVersion(fixture)).toBe("14.2.33")
+
+    writePackageJson(path.join(tmp, "ranged"), { dependencies: { next: "^15.2.0" } })
+    expect(await readNextVersion(path.join(tmp, "ranged"))).toBe("15.2.0")
+
+    writePackageJson(path.join(tmp, "tagged"), { dependencies: { next: "canary" } })
+    expect(await readNextVersion(path.join(tmp, "tagged"))).toBeNull()
+  })
+})
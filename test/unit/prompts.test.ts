@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+
+const getAllAvailableServersMock = vi.fn()
+const listNextJsToolsMock = vi.fn()
+
+vi.mock("../../src/_internal/nextjs-runtime-manager.js", () => ({
+  getAllAvailableServers: (...args: unknown[]) => getAllAvailableServersMock(...args),
+  listNextJsTools: (...args: unknown[]) => listNextJsToolsMock(...args),
+  getDefaultHost: () => "localhost",
+}))
+
+import * as diagnoseRuntimeErrors from "../../src/prompts/diagnose-runtime-errors.js"
+import * as explainRoute from "../../src/prompts/explain-route.js"
+import * as verifyInBrowser from "../../src/prompts/verify-in-browser.js"
+
+let tmpDir: string
+
+function makeProject(installed: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextjs-prompts-"))
+  const nextPkgDir = path.join(dir, "node_modules", "next")
+  fs.mkdirSync(path.join(nextPkgDir, "dist", "docs"), { recursive: true })
+  fs.writeFileSync(
+    path.join(nextPkgDir, "package.json"),
+    JSON.stringify({ name: "next", version: installed })
+  )
+  return dir
+}
+
+describe("prompts", () => {
+  beforeEach(() => {
+    tmpDir = ""
+    getAllAvailableServersMock.mockReset()
+    listNextJsToolsMock.mockReset()
+    getAllAvailableServersMock.mockResolvedValue([
+      { host: "localhost", port: 3000, pid: 4242, command: "next-server" },
+    ])
+    listNextJsToolsMock.mockResolvedValue([
+      { name: "get_errors" },
+      { name: "get_logs" },
+      { name: "get_page_metadata" },
+    ])
+  })
+
+  afterEach(() => {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it("diagnose-runtime-errors embeds live servers, tools and the docs path", async () => {
+    tmpDir = makeProject("16.1.0")
+    const text = await diagnoseRuntimeErrors.handler({ project_path: tmpDir })
+
+    expect(text).toContain("port 3000 (pid 4242)")
+    expect(text).toContain('toolName="get_errors"')
+    expect(text).toContain('toolName="get_logs"')
+    expect(text).toContain(path.join(tmpDir, "node_modules", "next", "dist", "docs"))
+  })
+
+  it("targets only the requested port", async () => {
+    getAllAvailableServersMock.mockResolvedValue([
+      { host: "localhost", port: 3000, pid: 1, command: "next-server" },
+      { host: "localhost", port: 3001, pid: 2, command: "next-server" },
+    ])
+    const text = await diagnoseRuntimeErrors.handler({ port: 3001 })
+
+    expect(listNextJsToolsMock).toHaveBeenCalledWith(3001, "localhost")
+    expect(listNextJsToolsMock).not.toHaveBeenCalledWith(3000, "localhost")
+    expect(text).toContain("port 3001")
+  })
+
+  it("accepts only port numbers from 1 to 65535", () => {
+    for (const prompt of [diagnoseRuntimeErrors, explainRoute, verifyInBrowser]) {
+      expect(prompt.inputSchema.port.parse("3001")).toBe(3001)
+      for (const port of ["abc", "0", "70000"]) {
+        const result = prompt.inputSchema.port.safeParse(port)
+        expect(result.success).toBe(false)
+        expect(result.error?.issues[0].message).toMatch(/^Port must be/)
+      }
+    }
+  })
+
+  it("tells the agent to ask for a port when nothing is running", async () => {
+    getAllAvailableServersMock.mockResolvedValue([])
+    const text = await diagnoseRuntimeErrors.handler({})
+    expect(text).toContain("No running Next.js 16+ dev server")
+  })
+
+  it("explain-route uses the page metadata tool when available", async () => {
+    const text = await explainRoute.handler({ route: "/users/[id]" })
+    expect(text).toContain("`/users/[id]`")
+    expect(text).toContain('toolName="get_page_metadata"')
+  })
+
+  it("explain-route points at the upgrade path for old Next.js", async () => {
+    tmpDir = makeProject("14.2.0")
+    const text = await explainRoute.handler({ route: "/", project_path: tmpDir })
+    expect(text).toContain("npx @next/codemod@latest upgrade latest")
+  })
+
+  it("verify-in-browser builds the page URL on the discovered server", async () => {
+    const text = await verifyInBrowser.handler({ change: "New header", path: "settings" })
+    expect(text).toContain("http://localhost:3000/settings")
+    expect(text).toContain("browser_eval")
+  })
+
+  it("marks required and optional arguments", () => {
+    expect(explainRoute.inputSchema.route.isOptional()).toBe(false)
+    expect(explainRoute.inputSchema.port.isOptional()).toBe(true)
+    expect(verifyInBrowser.inputSchema.change.isOptional()).toBe(false)
+  })
+})
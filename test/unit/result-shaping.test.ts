@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest"
+import {
+  collapseStackTraces,
+  estimateTokens,
+  readResultPage,
+  shapeResult,
+} from "../../src/_internal/result-shaping.js"
+
+// What a get_routes call on a big app looks like: MCP text content holding JSON
+function routesResult(count: number) {
+  const routes = Array.from({ length: count }, (_, i) => `/products/${i}/reviews/[reviewId]`)
+  return { content: [{ type: "text", text: JSON.stringify({ appRouter: routes }) }] }
+}
+
+const STACK = [
+  "Error: Cannot read properties of undefined (reading 'map')",
+  ...Array.from(
+    { length: 30 },
+    (_, i) => `    at fn${i} (webpack-internal:///./app/page.tsx:${i}:1)`
+  ),
+  "The above error occurred in <Page>",
+].join("\n")
+
+describe("collapseStackTraces", () => {
+  it("keeps the first frames of each trace and counts the rest", () => {
+    const collapsed = collapseStackTraces(STACK, 2).split("\n")
+    expect(collapsed).toEqual([
+      "Error: Cannot read properties of undefined (reading 'map')",
+      "    at fn0 (webpack-internal:///./app/page.tsx:0:1)",
+      "    at fn1 (webpack-internal:///./app/page.tsx:1:1)",
+      "    ... 28 more frames",
+      "The above error occurred in <Page>",
+    ])
+  })
+})
+
+describe("shapeResult", () => {
+  it("returns results within budget untouched", () => {
+    const result = routesResult(3)
+    expect(shapeResult(result, 1000)).toEqual({ result })
+  })
+
+  it("keeps the head of long arrays inside JSON text content, with a count", () => {
+    const { result, truncation } = shapeResult(routesResult(2000), 1000)
+
+    const { appRouter } = JSON.parse((result as ReturnType<typeof routesResult>).content[0].text)
+    expect(appRouter[0]).toBe("/products/0/reviews/[reviewId]")
+    expect(appRouter.at(-1)).toMatch(/^\.\.\. \d+ more items \(2000 total\)$/)
+    expect(estimateTokens(result)).toBeLessThanOrEqual(1000)
+    expect(truncation).toMatchObject({
+      originalTokens: estimateTokens(routesResult(2000)),
+      returnedTokens: estimateTokens(result),
+      cursor: expect.stringMatching(/^[0-9a-f-]{36}:0$/),
+    })
+  })
+
+  it("collapses stack traces and cuts long strings", () => {
+    const { result } = shapeResult({ error: STACK, log: "x".repeat(50_000) }, 500)
+    const { error, log } = result as { error: string; log: string }
+
+    expect(error).toContain("more frames")
+    expect(log).toMatch(/more characters\]$/)
+    expect(log.length).toBeLessThan(5000)
+  })
+})
+
+describe("readResultPage", () => {
+  it("pages through the full result, pretty-printed, until there is no next cursor", () => {
+    const full = routesResult(500)
+    const { truncation } = shapeResult(full, 500)
+
+    let cursor: string | null = truncation!.cursor
+    let text = ""
+    let pages = 0
+    while (cursor) {
+      const page = readResultPage(cursor, 500)!
+      expect(page.offset).toBe(text.length)
+      expect(page.text.length).toBeLessThanOrEqual(2000)
+      text += page.text
+      cursor = page.nextCursor
+      pages++
+    }
+
+    expect(pages).toBeGreaterThan(1)
+    expect(JSON.parse(text)).toEqual(JSON.parse(full.content[0].text))
+    // Pages end at line breaks, so each one reads on its own
+    expect(text.split("\n")).toContain('    "/products/499/reviews/[reviewId]"')
+  })
+
+  it("returns null for unknown cursors", () => {
+    expect(readResultPage("nope:0", 500)).toBeNull()
+    const { truncation } = shapeResult(routesResult(500), 500)
+    const handle = truncation!.cursor.split(":")[0]
+    expect(readResultPage(`${handle}:-1`, 500)).toBeNull()
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from "vitest"
+import { McpHttpError } from "../../src/_internal/nextjs-mcp-session.js"
+import {
+  classifyTransientFailure,
+  retryDelay,
+  withRetry,
+  type RetryAttempt,
+} from "../../src/_internal/retry.js"
+
+// What fetch throws when the dev server is restarting
+const fetchFailed = (code: string) =>
+  new TypeError("fetch failed", { cause: Object.assign(new Error(code), { code }) })
+
+const policy = { maxRetries: 3, baseDelayMs: 1 }
+
+describe("classifyTransientFailure", () => {
+  it("recognizes restarts, resets and 503s", () => {
+    expect(classifyTransientFailure(fetchFailed("ECONNREFUSED"))).toEqual({
+      reason: "connection refused",
+      delivery: "not-delivered",
+    })
+    expect(classifyTransientFailure(fetchFailed("ECONNRESET"))).toEqual({
+      reason: "connection reset",
+      delivery: "maybe-delivered",
+    })
+    expect(classifyTransientFailure(new McpHttpError(503, "Service Unavailable"))).toEqual({
+      reason: "HTTP 503",
+      delivery: "not-delivered",
+    })
+    expect(classifyTransientFailure(new McpHttpError(502, "Bad Gateway"))).toMatchObject({
+      delivery: "maybe-delivered",
+    })
+  })
+
+  it("leaves other failures alone", () => {
+    expect(classifyTransientFailure(new McpHttpError(404, "Not Found"))).toBeNull()
+    expect(classifyTransientFailure(new Error("MCP Error: unknown tool"))).toBeNull()
+  })
+})
+
+describe("retryDelay", () => {
+  it("doubles per attempt, with jitter, up to a cap", () => {
+    for (let i = 0; i < 20; i++) {
+      expect(retryDelay(1, { maxRetries: 3, baseDelayMs: 200 })).toBeGreaterThanOrEqual(100)
+      expect(retryDelay(1, { maxRetries: 3, baseDelayMs: 200 })).toBeLessThanOrEqual(200)
+      expect(retryDelay(3, { maxRetries: 3, baseDelayMs: 200 })).toBeGreaterThanOrEqual(400)
+      expect(retryDelay(3, { maxRetries: 3, baseDelayMs: 200 })).toBeLessThanOrEqual(800)
+      expect(retryDelay(20, { maxRetries: 3, baseDelayMs: 200 })).toBeLessThanOrEqual(5000)
+    }
+  })
+})
+
+describe("withRetry", () => {
+  it("retries transient failures until the call succeeds", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(fetchFailed("ECONNREFUSED"))
+      .mockRejectedValueOnce(new McpHttpError(503, "Service Unavailable"))
+      .mockResolvedValue("ok")
+    const attempts: RetryAttempt[] = []
+
+    const result = await withRetry(fn, {
+      policy,
+      idempotent: false,
+      onRetry: (attempt) => attempts.push(attempt),
+    })
+
+    expect(result).toBe("ok")
+    expect(attempts).toEqual([
+      { attempt: 1, delayMs: expect.any(Number), reason: "connection refused" },
+      { attempt: 2, delayMs: expect.any(Number), reason: "HTTP 503" },
+    ])
+  })
+
+  it("gives up after maxRetries", async () => {
+    const fn = vi.fn().mockRejectedValue(fetchFailed("ECONNREFUSED"))
+    await expect(withRetry(fn, { policy, idempotent: true })).rejects.toThrow("fetch failed")
+    expect(fn).toHaveBeenCalledTimes(4)
+  })
+
+  it("only retries a possibly delivered request when it is idempotent", async () => {
+    const reset = vi.fn().mockRejectedValueOnce(fetchFailed("ECONNRESET")).mockResolvedValue("ok")
+    await expect(withRetry(reset, { policy, idempotent: false })).rejects.toThrow()
+
+    reset.mockRejectedValueOnce(fetchFailed("ECONNRESET"))
+    expect(await withRetry(reset, { policy, idempotent: true })).toBe("ok")
+  })
+
+  it("does not retry permanent failures or aborted calls", async () => {
+    const notFound = vi.fn().mockRejectedValue(new McpHttpError(404, "Not Found"))
+    await expect(withRetry(notFound, { policy, idempotent: true })).rejects.toThrow("HTTP 404")
+    expect(notFound).toHaveBeenCalledTimes(1)
+
+    const controller = new AbortController()
+    const aborted = vi.fn().mockImplementation(async () => {
+      controller.abort()
+      throw fetchFailed("ECONNREFUSED")
+    })
+    await expect(
+      withRetry(aborted, { policy, idempotent: true, signal: controller.signal })
+    ).rejects.toThrow("fetch failed")
+    expect(aborted).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest"
+import { pathToFileURL } from "node:url"
+import { selectServer } from "../../src/_internal/server-selection.js"
+import { listClientRootPaths } from "../../src/_internal/client-roots.js"
+
+// A monorepo with two apps running, plus a server whose project is unknown
+const web = { host: "localhost", port: 3000, pid: 1, command: "", projectRoot: "/repo/apps/web" }
+const admin = {
+  host: "localhost",
+  port: 3001,
+  pid: 2,
+  command: "",
+  projectRoot: "/repo/apps/admin",
+}
+const unknown = { host: "localhost", port: 3002, pid: 3, command: "" }
+
+describe("selectServer", () => {
+  it("picks the only running server", () => {
+    expect(selectServer([web], { roots: [], cwd: "/elsewhere" })).toEqual({
+      ok: true,
+      server: web,
+      reason: "the only running Next.js dev server",
+    })
+  })
+
+  it("picks the server whose project matches the client's roots", () => {
+    const selection = selectServer([web, admin, unknown], {
+      roots: ["/repo/apps/admin/app"],
+      cwd: "/repo",
+    })
+    expect(selection).toMatchObject({ ok: true, server: admin })
+    expect(selection.ok && selection.reason).toContain("workspace roots")
+  })
+
+  it("falls back to the working directory", () => {
+    const selection = selectServer([web, admin], { roots: [], cwd: "/repo/apps/web" })
+    expect(selection).toMatchObject({ ok: true, server: web })
+    expect(selection.ok && selection.reason).toContain("working directory /repo/apps/web")
+  })
+
+  it("narrows by roots first, then by the working directory", () => {
+    expect(
+      selectServer([web, admin, unknown], { roots: ["/repo"], cwd: "/repo/apps/admin" })
+    ).toMatchObject({ ok: true, server: admin })
+  })
+
+  it("reports the candidates when the choice is ambiguous", () => {
+    expect(selectServer([web, admin, unknown], { roots: ["/repo"], cwd: "/repo" })).toEqual({
+      ok: false,
+      kind: "ambiguous",
+      candidates: [web, admin],
+    })
+    expect(selectServer([web, unknown], { roots: [], cwd: "/elsewhere" })).toEqual({
+      ok: false,
+      kind: "ambiguous",
+      candidates: [web, unknown],
+    })
+  })
+
+  it("reports when no server is running", () => {
+    expect(selectServer([], { roots: [], cwd: "/repo" })).toEqual({
+      ok: false,
+      kind: "no-server",
+      candidates: [],
+    })
+  })
+})
+
+describe("listClientRootPaths", () => {
+  const client = (roots: Array<{ uri: string }> | Error, supportsRoots = true) => ({
+    getClientCapabilities: () => (supportsRoots ? { roots: {} } : {}),
+    listRoots: async () => {
+      if (roots instanceof Error) throw roots
+      return { roots }
+    },
+  })
+
+  it("returns the local paths of file roots", async () => {
+    const server = client([{ uri: pathToFileURL("/repo/apps/web").href }, { uri: "https://x.dev" }])
+    expect(await listClientRootPaths(server)).toEqual(["/repo/apps/web"])
+  })
+
+  it("is empty when the client doesn't support or answer roots/list", async () => {
+    expect(await listClientRootPaths(client([{ uri: "file:///repo" }], false))).toEqual([])
+    expect(await listClientRootPaths(client(new Error("Request timed out")))).toEqual([])
+  })
+})
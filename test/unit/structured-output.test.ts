@@ -0,0 +1,438 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { z } from "zod"
+
+const getAllAvailableServersMock = vi.fn()
+const listNextJsToolsMock = vi.fn()
+const callNextJsToolMock = vi.fn()
+const getIncompatibleServersMock = vi.fn()
+
+vi.mock("../../src/_internal/nextjs-runtime-manager.js", () => ({
+  getAllAvailableServers: (...args: unknown[]) => getAllAvailableServersMock(...args),
+  listNextJsTools: (...args: unknown[]) => listNextJsToolsMock(...args),
+  requestNextJsTools: (...args: unknown[]) => listNextJsToolsMock(...args),
+  callNextJsTool: (...args: unknown[]) => callNextJsToolMock(...args),
+  getNextJsServerInfo: async () => ({
+    serverInfo: { name: "Next.js", version: "16.0.0" },
+    protocolVersion: "2025-06-18",
+  }),
+  UpstreamTimeoutError: class UpstreamTimeoutError extends Error {},
+  detectProtocol: async () => "http",
+  getDefaultHost: () => "localhost",
+  hostForPort: () => "localhost",
+  getIncompatibleServers: () => getIncompatibleServersMock(),
+}))
+vi.mock("../../src/_internal/server-fingerprint.js", () => ({
+  fingerprintServer: async () => ({
+    nextVersion: "16.0.0",
+    bundler: "turbopack",
+    https: false,
+    selfSignedCert: null,
+    routers: ["app"],
+    uptimeSeconds: 120,
+  }),
+}))
+
+import * as nextjsIndex from "../../src/tools/nextjs_index.js"
+import * as nextjsCall from "../../src/tools/nextjs_call.js"
+import { clearToolSchemaCache } from "../../src/_internal/tool-args-validation.js"
+import { DevtoolsError } from "../../src/_internal/error-codes.js"
+
+function expectMatchesOutputSchema(shape: Record<string, z.ZodTypeAny>, value: unknown) {
+  expect(z.object(shape).strict().safeParse(value).success).toBe(true)
+}
+
+describe("structured tool output", () => {
+  beforeEach(() => {
+    getAllAvailableServersMock.mockReset()
+    listNextJsToolsMock.mockReset().mockResolvedValue([])
+    clearToolSchemaCache()
+    callNextJsToolMock.mockReset()
+    getIncompatibleServersMock.mockReset().mockReturnValue([])
+  })
+
+  it("nextjs_index returns servers as structured content", async () => {
+    getAllAvailableServersMock.mockResolvedValue([
+      { host: "localhost", port: 3000, pid: 42, command: "next-server" },
+    ])
+    listNextJsToolsMock.mockResolvedValue([{ name: "get_errors", description: "Errors" }])
+
+    const result = await nextjsIndex.handler({})
+
+    expect(result.isError).toBeUndefined()
+    expect(result.summary).toBe("Found 1 Next.js server with MCP enabled")
+    expect(result.structuredContent.servers[0]).toMatchObject({
+      port: 3000,
+      url: "http://localhost:3000",
+      serverInfo: { name: "Next.js", version: "16.0.0" },
+      fingerprint: { nextVersion: "16.0.0", bundler: "turbopack", routers: ["app"] },
+      toolCount: 1,
+    })
+    expectMatchesOutputSchema(nextjsIndex.outputSchema, result.structuredContent)
+  })
+
+  it("nextjs_index flags discovery failures with isError", async () => {
+    getAllAvailableServersMock.mockResolvedValue([])
+
+    const result = await nextjsIndex.handler({})
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent.error).toContain("No running Next.js dev servers")
+    expect(result.structuredContent.code).toBe("NO_SERVER_FOUND")
+    expectMatchesOutputSchema(nextjsIndex.outputSchema, result.structuredContent)
+  })
+
+  it("nextjs_index reports why a probed port can't be used", async () => {
+    listNextJsToolsMock.mockRejectedValue(
+      new DevtoolsError(
+        "MCP_ENDPOINT_MISSING",
+        "MCP endpoint not found on port 3005.",
+        "Upgrade.",
+        {
+          port: 3005,
+          status: 404,
+        }
+      )
+    )
+
+    const result = await nextjsIndex.handler({ port: 3005 })
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent).toMatchObject({
+      port: 3005,
+      error: "Failed to connect to port 3005: MCP endpoint not found on port 3005.",
+      code: "MCP_ENDPOINT_MISSING",
+      hint: "Upgrade.",
+      details: { port: 3005, status: 404 },
+    })
+    expectMatchesOutputSchema(nextjsIndex.outputSchema, result.structuredContent)
+  })
+
+  it("nextjs_index explains why running servers can't be used", async () => {
+    getAllAvailableServersMock.mockResolvedValue([])
+    getIncompatibleServersMock.mockReturnValue([
+      {
+        host: "localhost",
+        port: 3000,
+        pid: 7,
+        command: "next-server (v15.2.0)",
+        projectRoot: "/repo",
+        nextVersion: "15.2.0",
+        kind: "version-too-old",
+        reason: "Next.js 15.2 detected, MCP requires 16",
+        upgrade: "Upgrade to Next.js 16+ with 'npx @next/codemod@latest upgrade latest'.",
+      },
+    ])
+
+    const result = await nextjsIndex.handler({})
+
+    expect(result.isError).toBe(true)
+    expect(result.summary).toBe("Found 1 running Next.js server, but none with MCP enabled")
+    expect(result.structuredContent.incompatible).toHaveLength(1)
+    expect(result.structuredContent.code).toBe("NEXT_VERSION_TOO_OLD")
+    expect(result.structuredContent.details).toEqual({
+      servers: [{ port: 3000, kind: "version-too-old", nextVersion: "15.2.0" }],
+    })
+    expect(result.structuredContent.hint).toBe(
+      "Port 3000: Next.js 15.2 detected, MCP requires 16. Upgrade to Next.js 16+ with 'npx @next/codemod@latest upgrade latest'."
+    )
+    expectMatchesOutputSchema(nextjsIndex.outputSchema, result.structuredContent)
+  })
+
+  it("nextjs_index filters servers by project_path", async () => {
+    getAllAvailableServersMock.mockResolvedValue([
+      { host: "localhost", port: 3000, pid: 1, command: "next", projectRoot: "/repo/apps/web" },
+      { host: "localhost", port: 3001, pid: 2, command: "next", projectRoot: "/repo/apps/docs" },
+      { host: "localhost", port: 3002, pid: 3, command: "next" },
+    ])
+    listNextJsToolsMock.mockResolvedValue([{ name: "get_errors" }])
+
+    const result = await nextjsIndex.handler({ project_path: "/repo/apps/docs/app/page.tsx" })
+
+    expect(result.structuredContent.servers.map((s) => [s.port, s.projectRoot])).toEqual([
+      [3001, "/repo/apps/docs"],
+    ])
+    expectMatchesOutputSchema(nextjsIndex.outputSchema, result.structuredContent)
+
+    const none = await nextjsIndex.handler({ project_path: "/elsewhere" })
+    expect(none.isError).toBe(true)
+    expect(none.structuredContent.hint).toContain("port 3000 (/repo/apps/web)")
+  })
+
+  it("rejects ports that are not port numbers before calling anything", () => {
+    const callArgs = z.object(nextjsCall.inputSchema)
+    expect(callArgs.parse({ port: "3000" }).port).toBe(3000)
+    expect(callArgs.parse({ port: "all" }).port).toBe("all")
+    expect(callArgs.safeParse({ port: "abc" }).success).toBe(false)
+    expect(callArgs.safeParse({ port: 70000 }).success).toBe(false)
+    expect(callArgs.safeParse({ calls: [{ port: "abc", toolName: "get_errors" }] }).success).toBe(
+      false
+    )
+
+    const indexArgs = z.object(nextjsIndex.inputSchema)
+    expect(indexArgs.parse({ port: "3000" }).port).toBe(3000)
+    expect(indexArgs.safeParse({ port: "abc" }).success).toBe(false)
+  })
+
+  it("nextjs_call returns the upstream result", async () => {
+    callNextJsToolMock.mockResolvedValue({ content: [{ type: "text", text: "no errors" }] })
+
+    const result = await nextjsCall.handler({ port: "3000", toolName: "get_errors" })
+
+    expect(result.isError).toBeUndefined()
+    expect(result.structuredContent).toEqual({
+      port: 3000,
+      toolName: "get_errors",
+      result: { content: [{ type: "text", text: "no errors" }] },
+    })
+    expectMatchesOutputSchema(nextjsCall.outputSchema, result.structuredContent)
+  })
+
+  it("nextjs_call sets isError when the call fails", async () => {
+    callNextJsToolMock.mockRejectedValue(
+      new DevtoolsError(
+        "SERVER_UNREACHABLE",
+        "Cannot connect to Next.js dev server on port 3000.",
+        "Make sure the dev server is running ('npm run dev').",
+        { port: 3000, retries: 3 }
+      )
+    )
+
+    const result = await nextjsCall.handler({ port: 3000, toolName: "get_errors" })
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent).toMatchObject({
+      error: expect.stringContaining("Cannot connect"),
+      code: "SERVER_UNREACHABLE",
+      hint: expect.stringContaining("npm run dev"),
+      details: { port: 3000, retries: 3 },
+    })
+    expectMatchesOutputSchema(nextjsCall.outputSchema, result.structuredContent)
+  })
+
+  it("nextjs_call reports an unreachable server without trying the call", async () => {
+    listNextJsToolsMock.mockRejectedValue(
+      new DevtoolsError("SERVER_UNREACHABLE", "Cannot connect to Next.js dev server on port 3000.")
+    )
+
+    const result = await nextjsCall.handler({ port: 3000, toolName: "get_errors" })
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent).toMatchObject({
+      port: 3000,
+      toolName: "get_errors",
+      code: "SERVER_UNREACHABLE",
+    })
+    expect(callNextJsToolMock).not.toHaveBeenCalled()
+  })
+
+  it("nextjs_call sets isError when the runtime tool reports an error", async () => {
+    callNextJsToolMock.mockResolvedValue({
+      content: [{ type: "text", text: "unknown action" }],
+      isError: true,
+    })
+
+    const result = await nextjsCall.handler({ port: 3000, toolName: "get_server_action_by_id" })
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent.result).toBeDefined()
+    expect(result.structuredContent.code).toBe("UPSTREAM_TOOL_ERROR")
+  })
+  it("nextjs_call runs a batch and reports each call's result or error", async () => {
+    callNextJsToolMock.mockImplementation(async (port: number, toolName: string) => {
+      if (port === 3001) throw new Error("Cannot connect to Next.js dev server")
+      return { content: [{ type: "text", text: `${toolName} on ${port}` }] }
+    })
+
+    const result = await nextjsCall.handler({
+      calls: [
+        { port: 3000, toolName: "get_errors" },
+        { port: 3000, toolName: "get_routes", args: { type: "app" } },
+        { port: 3001, toolName: "get_errors" },
+      ],
+    })
+
+    expect(result.isError).toBeUndefined()
+    expect(result.summary).toBe("Ran 3 calls on 2 dev servers: 2 succeeded, 1 failed.")
+    expect(callNextJsToolMock).toHaveBeenCalledWith(
+      3000,
+      "get_routes",
+      { type: "app" },
+      expect.anything()
+    )
+    expect(result.structuredContent).toMatchObject({
+      succeeded: 2,
+      failed: 1,
+      results: [
+        {
+          port: 3000,
+          toolName: "get_errors",
+          result: { content: [{ text: "get_errors on 3000" }] },
+        },
+        { port: 3000, toolName: "get_routes" },
+        { port: 3001, toolName: "get_errors", error: expect.stringContaining("Cannot connect") },
+      ],
+    })
+    expectMatchesOutputSchema(nextjsCall.outputSchema, result.structuredContent)
+  })
+
+  it("nextjs_call fans out to every server with port 'all', within the concurrency limit", async () => {
+    getAllAvailableServersMock.mockResolvedValue(
+      [3000, 3001, 3002].map((port) => ({ host: "localhost", port, pid: port, command: "next" }))
+    )
+    let inFlight = 0
+    let maxInFlight = 0
+    callNextJsToolMock.mockImplementation(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      inFlight--
+      return { content: [] }
+    })
+
+    const result = await nextjsCall.handler({ port: "all", toolName: "get_errors", concurrency: 2 })
+
+    expect(result.structuredContent.results?.map((r) => r.port)).toEqual([3000, 3001, 3002])
+    expect(result.structuredContent.succeeded).toBe(3)
+    expect(maxInFlight).toBe(2)
+  })
+
+  it("nextjs_call with port 'all' calls the same port on every host", async () => {
+    getAllAvailableServersMock.mockResolvedValue(
+      ["localhost", "192.168.1.20"].map((host) => ({ host, port: 3000, pid: 0, command: "" }))
+    )
+    callNextJsToolMock.mockResolvedValue({ content: [] })
+
+    const result = await nextjsCall.handler({ port: "all", toolName: "get_errors" })
+
+    expect(callNextJsToolMock.mock.calls.map((call) => call[3].host)).toEqual([
+      "localhost",
+      "192.168.1.20",
+    ])
+    expect(result.structuredContent.results).toMatchObject([
+      { port: 3000, host: "localhost" },
+      { port: 3000, host: "192.168.1.20" },
+    ])
+    expect(result.summary).toContain("on 2 dev servers")
+    expectMatchesOutputSchema(nextjsCall.outputSchema, result.structuredContent)
+  })
+
+  it("nextjs_call fails a batch only when every call failed", async () => {
+    getAllAvailableServersMock.mockResolvedValue([])
+    const noServers = await nextjsCall.handler({ port: "all", toolName: "get_errors" })
+    expect(noServers.isError).toBe(true)
+    expect(noServers.structuredContent.error).toContain("No running Next.js dev servers")
+
+    callNextJsToolMock.mockRejectedValue(new Error("Cannot connect to Next.js dev server"))
+    const allFailed = await nextjsCall.handler({ calls: [{ port: 3000, toolName: "get_errors" }] })
+    expect(allFailed.isError).toBe(true)
+    expect(allFailed.structuredContent.failed).toBe(1)
+    // Errors without a code of their own are reported as UPSTREAM_ERROR
+    expect(allFailed.structuredContent.code).toBe("UPSTREAM_ERROR")
+    expectMatchesOutputSchema(nextjsCall.outputSchema, allFailed.structuredContent)
+  })
+  it("nextjs_call truncates results over maxTokens and pages through the rest", async () => {
+    const logs = Array.from({ length: 1000 }, (_, i) => `[${i}] GET /api/items 200`)
+    callNextJsToolMock.mockResolvedValue({
+      content: [{ type: "text", text: JSON.stringify({ logs }) }],
+    })
+
+    const result = await nextjsCall.handler({ port: 3000, toolName: "get_logs", maxTokens: 600 })
+
+    expect(result.isError).toBeUndefined()
+    expect(result.summary).toContain("pass 'cursor'")
+    const { truncation } = result.structuredContent
+    expect(truncation?.returnedTokens).toBeLessThanOrEqual(600)
+    expectMatchesOutputSchema(nextjsCall.outputSchema, result.structuredContent)
+
+    const page = await nextjsCall.handler({ cursor: truncation!.cursor, maxTokens: 600 })
+    expect(page.structuredContent.page).toMatchObject({
+      offset: 0,
+      nextCursor: expect.any(String),
+    })
+    expect(page.structuredContent.page?.text).toContain("[0] GET /api/items 200")
+    expectMatchesOutputSchema(nextjsCall.outputSchema, page.structuredContent)
+
+    const expired = await nextjsCall.handler({ cursor: "gone:0" })
+    expect(expired.isError).toBe(true)
+    expect(expired.structuredContent.hint).toContain("15 minutes")
+    expect(expired.structuredContent.code).toBe("CURSOR_EXPIRED")
+  })
+  it("nextjs_call rejects invalid arguments and unknown tools before calling the server", async () => {
+    listNextJsToolsMock.mockResolvedValue([
+      { name: "get_errors", inputSchema: { type: "object", properties: {} } },
+      {
+        name: "get_page_metadata",
+        inputSchema: {
+          type: "object",
+          properties: { url: { type: "string" } },
+          required: ["url"],
+        },
+      },
+    ])
+
+    const invalid = await nextjsCall.handler({
+      port: 3000,
+      toolName: "get_page_metadata",
+      args: { url: 42 },
+    })
+    expect(invalid.isError).toBe(true)
+    expect(invalid.structuredContent.validationErrors).toEqual(["args.url must be string"])
+    expect(invalid.structuredContent.code).toBe("INVALID_ARGS")
+    expect(invalid.structuredContent.details).toEqual({ args: { url: 42 } })
+    expectMatchesOutputSchema(nextjsCall.outputSchema, invalid.structuredContent)
+
+    const unknown = await nextjsCall.handler({ port: 3000, toolName: "get_error" })
+    expect(unknown.isError).toBe(true)
+    expect(unknown.structuredContent.suggestions).toEqual(["get_errors"])
+    expect(unknown.structuredContent.code).toBe("UNKNOWN_TOOL")
+    expect(unknown.structuredContent.hint).toContain("Did you mean 'get_errors'?")
+
+    expect(callNextJsToolMock).not.toHaveBeenCalled()
+  })
+  it("nextjs_call picks the server when the port is omitted", async () => {
+    getAllAvailableServersMock.mockResolvedValue([
+      { host: "localhost", port: 3000, pid: 1, command: "next", projectRoot: "/repo/apps/web" },
+      { host: "devbox", port: 3001, pid: 2, command: "next", projectRoot: "/repo/apps/admin" },
+    ])
+    callNextJsToolMock.mockResolvedValue({ content: [] })
+
+    const result = await nextjsCall.handler(
+      { toolName: "get_errors" },
+      { listRoots: async () => ["/repo/apps/admin"] }
+    )
+
+    expect(callNextJsToolMock).toHaveBeenCalledWith(
+      3001,
+      "get_errors",
+      {},
+      expect.objectContaining({ host: "devbox" })
+    )
+    expect(listNextJsToolsMock).toHaveBeenCalledWith(3001, "devbox", expect.anything())
+    expect(result.summary).toContain("Chose port 3001")
+    expect(result.structuredContent.selectedServer).toMatchObject({
+      port: 3001,
+      host: "devbox",
+      projectRoot: "/repo/apps/admin",
+      reason: expect.stringContaining("workspace roots"),
+    })
+    expectMatchesOutputSchema(nextjsCall.outputSchema, result.structuredContent)
+  })
+
+  it("nextjs_call lists the candidates when it can't tell which server is meant", async () => {
+    getAllAvailableServersMock.mockResolvedValue([
+      { host: "localhost", port: 3000, pid: 1, command: "next", projectRoot: "/repo/apps/web" },
+      { host: "localhost", port: 3001, pid: 2, command: "next" },
+    ])
+
+    const result = await nextjsCall.handler({ toolName: "get_errors" })
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent.candidates).toEqual([
+      { port: 3000, host: "localhost", projectRoot: "/repo/apps/web" },
+      { port: 3001, host: "localhost", projectRoot: null },
+    ])
+    expect(result.structuredContent.hint).toContain("port 3001 (unknown project)")
+    expect(result.structuredContent.code).toBe("AMBIGUOUS_SERVER")
+    expect(callNextJsToolMock).not.toHaveBeenCalled()
+    expectMatchesOutputSchema(nextjsCall.outputSchema, result.structuredContent)
+  })
+})
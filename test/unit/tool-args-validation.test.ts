@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+
+const requestNextJsToolsMock = vi.fn()
+
+vi.mock("../../src/_internal/nextjs-runtime-manager.js", () => ({
+  requestNextJsTools: (...args: unknown[]) => requestNextJsToolsMock(...args),
+  hostForPort: () => "localhost",
+}))
+
+import {
+  checkToolCall,
+  clearToolSchemaCache,
+  closestNames,
+  forgetToolSchemas,
+  isIdempotentTool,
+  validateArgs,
+} from "../../src/_internal/tool-args-validation.js"
+import { DevtoolsError } from "../../src/_internal/error-codes.js"
+
+// The shape of Next.js 16's runtime tools
+const TOOLS = [
+  { name: "get_errors", inputSchema: { type: "object", properties: {} } },
+  { name: "get_logs", inputSchema: { type: "object", properties: {} } },
+  { name: "get_routes", inputSchema: { type: "object", properties: {} } },
+  {
+    name: "get_page_metadata",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string" },
+        options: { type: "object", properties: { depth: { type: "number" } } },
+      },
+      required: ["url"],
+      additionalProperties: false,
+    },
+  },
+  { name: "get_server_action_by_id", inputSchema: { type: "object", properties: {} } },
+]
+const metadataSchema = TOOLS[3].inputSchema
+
+beforeEach(() => {
+  clearToolSchemaCache()
+  requestNextJsToolsMock.mockReset().mockResolvedValue(TOOLS)
+})
+
+describe("closestNames", () => {
+  const names = TOOLS.map((t) => t.name)
+
+  it("suggests likely typos and partial names, best first", () => {
+    expect(closestNames("get_error", names)[0]).toBe("get_errors")
+    expect(closestNames("routes", names)).toEqual(["get_routes"])
+    expect(closestNames("get_metadata", names)[0]).toBe("get_page_metadata")
+  })
+
+  it("suggests nothing for unrelated names", () => {
+    expect(closestNames("deploy_to_production", names)).toEqual([])
+  })
+})
+
+describe("validateArgs", () => {
+  it("accepts valid arguments and tools without a schema", () => {
+    expect(validateArgs(metadataSchema, { url: "/", options: { depth: 2 } })).toEqual([])
+    expect(validateArgs(undefined, { anything: true })).toEqual([])
+  })
+
+  it("reports missing fields and wrong types by argument path", () => {
+    expect(validateArgs(metadataSchema, { options: { depth: "deep" } })).toEqual([
+      "args must have required property 'url'",
+      "args.options.depth must be number",
+    ])
+  })
+
+  it("names unknown arguments and suggests the intended one", () => {
+    expect(validateArgs(metadataSchema, { url: "/", optionz: {} })).toEqual([
+      "args.optionz is not a known argument (did you mean 'options'?)",
+    ])
+  })
+
+  it("explains a stringified object", () => {
+    expect(validateArgs(metadataSchema, { url: "/", options: '{"depth": 2}' })).toEqual([
+      "args.options must be object (got a JSON string; pass the object itself, not a string)",
+    ])
+  })
+})
+
+describe("isIdempotentTool", () => {
+  it("trusts the tool's annotations, and treats get_* tools as read-only", () => {
+    expect(isIdempotentTool({ name: "get_errors" })).toBe(true)
+    expect(isIdempotentTool({ name: "reload", annotations: { idempotentHint: true } })).toBe(true)
+    expect(isIdempotentTool({ name: "clear_cache" })).toBe(false)
+  })
+})
+
+describe("checkToolCall", () => {
+  it("rejects unknown tools with the closest names", async () => {
+    expect(await checkToolCall(3000, "get_error", {})).toMatchObject({
+      ok: false,
+      kind: "unknown-tool",
+      suggestions: ["get_errors"],
+      available: TOOLS.map((t) => t.name),
+    })
+  })
+
+  it("caches the tool list per server", async () => {
+    await checkToolCall(3000, "get_errors", {})
+    await checkToolCall(3000, "get_routes", {})
+    expect(requestNextJsToolsMock).toHaveBeenCalledTimes(1)
+
+    await checkToolCall(3001, "get_routes", {})
+    expect(requestNextJsToolsMock).toHaveBeenCalledTimes(2)
+
+    await checkToolCall(3000, "get_routes", {}, { host: "192.168.1.20" })
+    expect(requestNextJsToolsMock).toHaveBeenCalledTimes(3)
+
+    forgetToolSchemas(3000, "localhost")
+    await checkToolCall(3000, "get_errors", {})
+    expect(requestNextJsToolsMock).toHaveBeenCalledTimes(4)
+  })
+
+  it("refetches once when a tool is missing from the cached list", async () => {
+    await checkToolCall(3000, "get_errors", {})
+    requestNextJsToolsMock.mockResolvedValue([...TOOLS, { name: "clear_cache" }])
+
+    expect(await checkToolCall(3000, "clear_cache", {})).toEqual({
+      ok: true,
+      tool: { name: "clear_cache" },
+    })
+  })
+
+  it("lets the call through when the tool list can't be fetched", async () => {
+    requestNextJsToolsMock.mockResolvedValue([])
+    expect(await checkToolCall(3000, "get_errors", { bogus: 1 })).toEqual({ ok: true })
+
+    requestNextJsToolsMock.mockRejectedValue(new DevtoolsError("UPSTREAM_ERROR", "HTTP 500"))
+    expect(await checkToolCall(3000, "get_errors", { bogus: 1 })).toEqual({ ok: true })
+  })
+
+  it("fails the call when the server can't be reached", async () => {
+    const error = new DevtoolsError("SERVER_UNREACHABLE", "Cannot connect")
+    requestNextJsToolsMock.mockRejectedValue(error)
+    expect(await checkToolCall(3000, "get_errors", {})).toEqual({
+      ok: false,
+      kind: "unreachable",
+      error,
+    })
+  })
+
+  it("gives the caller's deadline and signal to the tool list request", async () => {
+    const controller = new AbortController()
+    await checkToolCall(3000, "get_errors", {}, { timeoutMs: 200, signal: controller.signal })
+    expect(requestNextJsToolsMock).toHaveBeenCalledWith(3000, "localhost", {
+      timeoutMs: 200,
+      signal: controller.signal,
+    })
+  })
+
+  it("throws timeouts and cancellation instead of letting the call through", async () => {
+    const timeout = new DevtoolsError("UPSTREAM_TIMEOUT", "too slow")
+    requestNextJsToolsMock.mockRejectedValue(timeout)
+    await expect(checkToolCall(3000, "get_errors", {})).rejects.toBe(timeout)
+
+    const controller = new AbortController()
+    controller.abort()
+    requestNextJsToolsMock.mockRejectedValue(new Error("aborted"))
+    await expect(
+      checkToolCall(3000, "get_errors", {}, { signal: controller.signal })
+    ).rejects.toThrow("aborted")
+  })
+})
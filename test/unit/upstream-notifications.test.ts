@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { relayUpstreamNotification } from "../../src/_internal/upstream-notifications.js"
+import type { JsonRpcNotification } from "../../src/_internal/mcp-response-parser.js"
+import * as nextjsCall from "../../src/tools/nextjs_call.js"
+
+function createRelayTarget() {
+  const server = { sendLoggingMessage: vi.fn().mockResolvedValue(undefined) }
+  const extra = { sessionId: "session-1", sendNotification: vi.fn().mockResolvedValue(undefined) }
+  return { server, extra }
+}
+
+describe("relayUpstreamNotification", () => {
+  it("forwards upstream progress under the client's progress token", () => {
+    const { server, extra } = createRelayTarget()
+    const relay = relayUpstreamNotification(server, extra, "client-token")
+
+    relay({
+      jsonrpc: "2.0",
+      method: "notifications/progress",
+      params: { progressToken: "upstream-token", progress: 2, total: 5, message: "Compiling /" },
+    })
+
+    expect(extra.sendNotification).toHaveBeenCalledWith({
+      method: "notifications/progress",
+      params: { progressToken: "client-token", progress: 2, total: 5, message: "Compiling /" },
+    })
+  })
+
+  it("drops progress when the client did not ask for it", () => {
+    const { server, extra } = createRelayTarget()
+    const relay = relayUpstreamNotification(server, extra, undefined)
+
+    relay({ jsonrpc: "2.0", method: "notifications/progress", params: { progress: 1 } })
+
+    expect(extra.sendNotification).not.toHaveBeenCalled()
+  })
+
+  it("forwards upstream log messages to the client's session", () => {
+    const { server, extra } = createRelayTarget()
+    const relay = relayUpstreamNotification(server, extra, undefined)
+    const params = { level: "warning", logger: "next", data: "Slow compile" }
+
+    relay({ jsonrpc: "2.0", method: "notifications/message", params })
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledWith(params, "session-1")
+  })
+})
+
+describe("nextjs_call notification forwarding", () => {
+  let server: Server | undefined
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+    server = undefined
+  })
+
+  it("sends the progress token upstream and relays what the server streams back", async () => {
+    let upstreamMeta: unknown
+    server = createServer((req, res) => {
+      let body = ""
+      req.on("data", (chunk) => (body += chunk))
+      req.on("end", () => {
+        const { id, method, params } = JSON.parse(body)
+        if (method !== "tools/call") {
+          res.writeHead(200, { "Content-Type": "application/json" })
+          res.end(JSON.stringify({ jsonrpc: "2.0", id, error: { code: -32601, message: "nope" } }))
+          return
+        }
+        upstreamMeta = params._meta
+        const progressToken = params._meta.progressToken
+        res.writeHead(200, { "Content-Type": "text/event-stream" })
+        res.write(
+          `data: ${JSON.stringify({ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken, progress: 1, total: 2 } })}\n\n`
+        )
+        res.write(
+          `data: ${JSON.stringify({ jsonrpc: "2.0", method: "notifications/message", params: { level: "info", data: "Clearing cache" } })}\n\n`
+        )
+        res.end(`data: ${JSON.stringify({ jsonrpc: "2.0", id, result: { content: [] } })}\n\n`)
+      })
+    })
+    await new Promise<void>((resolve) => server!.listen(0, "localhost", resolve))
+    const { port } = server.address() as AddressInfo
+
+    const notifications: JsonRpcNotification[] = []
+    const result = await nextjsCall.handler(
+      { port, toolName: "clear_cache" },
+      { progressToken: 7, onNotification: (n) => notifications.push(n) }
+    )
+
+    expect(result.isError).toBeUndefined()
+    expect(upstreamMeta).toEqual({ progressToken: 7 })
+    expect(notifications.map((n) => n.method)).toEqual([
+      "notifications/progress",
+      "notifications/message",
+    ])
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach } from "vitest"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import * as nextjsCall from "../../src/tools/nextjs_call.js"
+
+describe("retrying a dev server that is reloading", () => {
+  let server: Server | undefined
+  let toolCalls: number
+
+  afterEach(async () => {
+    server?.closeAllConnections()
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+    server = undefined
+  })
+
+  // A dev server whose first `unavailable` tool calls get a 503, as while it
+  // recompiles after an edit
+  async function startReloadingServer(unavailable: number): Promise<number> {
+    toolCalls = 0
+    server = createServer((req, res) => {
+      let body = ""
+      req.on("data", (chunk) => (body += chunk))
+      req.on("end", () => {
+        const { id, method } = JSON.parse(body)
+        if (method === "tools/call" && ++toolCalls <= unavailable) {
+          res.writeHead(503)
+          res.end()
+          return
+        }
+        if (method.startsWith("notifications/")) {
+          res.writeHead(202)
+          res.end()
+          return
+        }
+        const result =
+          method === "initialize"
+            ? {
+                protocolVersion: "2025-06-18",
+                capabilities: { tools: {} },
+                serverInfo: { name: "Next.js", version: "16.0.0" },
+              }
+            : method === "tools/list"
+            ? { tools: [{ name: "get_errors", inputSchema: { type: "object" } }] }
+            : { content: [{ type: "text", text: "no errors" }] }
+        res.writeHead(200, { "Content-Type": "application/json" })
+        res.end(JSON.stringify({ jsonrpc: "2.0", id, result }))
+      })
+    })
+    await new Promise<void>((resolve) => server!.listen(0, "localhost", resolve))
+    return (server.address() as AddressInfo).port
+  }
+
+  it("retries with backoff and reports the retries", async () => {
+    const port = await startReloadingServer(2)
+
+    const result = await nextjsCall.handler({ port, toolName: "get_errors" })
+
+    expect(result.isError).toBeUndefined()
+    expect(toolCalls).toBe(3)
+    expect(result.structuredContent.retries).toEqual([
+      { attempt: 1, delayMs: expect.any(Number), reason: "HTTP 503" },
+      { attempt: 2, delayMs: expect.any(Number), reason: "HTTP 503" },
+    ])
+    expect(result.summary).toContain("the server was reloading, not down")
+  })
+
+  it("gives up after the retry budget and still reports what was tried", async () => {
+    const port = await startReloadingServer(Infinity)
+
+    const result = await nextjsCall.handler({ port, toolName: "get_errors" })
+
+    expect(result.isError).toBe(true)
+    expect(toolCalls).toBe(4)
+    expect(result.structuredContent.retries).toHaveLength(3)
+    expect(result.structuredContent).toMatchObject({
+      code: "UPSTREAM_ERROR",
+      details: { port, status: 503, toolName: "get_errors" },
+    })
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach } from "vitest"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { callNextJsTool, UpstreamTimeoutError } from "../../src/_internal/nextjs-runtime-manager.js"
+import * as nextjsCall from "../../src/tools/nextjs_call.js"
+
+describe("upstream timeouts and cancellation", () => {
+  let server: Server | undefined
+  let cancelled: Array<Record<string, unknown>>
+
+  afterEach(async () => {
+    server?.closeAllConnections()
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+    server = undefined
+  })
+
+  // A dev server that never answers `hangOn` (by default tools/call, after
+  // listing its tools right away)
+  async function startHangingServer(hangOn = ["tools/call"]): Promise<number> {
+    cancelled = []
+    server = createServer((req, res) => {
+      let body = ""
+      req.on("data", (chunk) => (body += chunk))
+      req.on("end", () => {
+        const { id, method, params } = JSON.parse(body)
+        if (hangOn.includes(method)) return
+        if (method === "initialize") {
+          res.writeHead(200, { "Content-Type": "application/json" })
+          res.end(
+            JSON.stringify({
+              jsonrpc: "2.0",
+              id,
+              result: {
+                protocolVersion: "2025-06-18",
+                capabilities: { tools: {} },
+                serverInfo: { name: "Next.js", version: "16.0.0" },
+              },
+            })
+          )
+        } else if (method === "tools/list") {
+          res.writeHead(200, { "Content-Type": "application/json" })
+          res.end(JSON.stringify({ jsonrpc: "2.0", id, result: { tools: [] } }))
+        } else if (method.startsWith("notifications/")) {
+          if (method === "notifications/cancelled") cancelled.push(params)
+          res.writeHead(202)
+          res.end()
+        }
+      })
+    })
+    await new Promise<void>((resolve) => server!.listen(0, "localhost", resolve))
+    return (server.address() as AddressInfo).port
+  }
+
+  async function waitForCancelNotification() {
+    await expect.poll(() => cancelled.length).toBe(1)
+    return cancelled[0]
+  }
+
+  it("aborts a hung call after timeoutMs and tells the server", async () => {
+    const port = await startHangingServer()
+
+    const error = await callNextJsTool(port, "get_errors", {}, { timeoutMs: 100 }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(UpstreamTimeoutError)
+    expect(error).toMatchObject({ port, method: "tools/call", timeoutMs: 100 })
+    expect(await waitForCancelNotification()).toMatchObject({ requestId: expect.any(Number) })
+  })
+
+  it("nextjs_call reports a timeout as a structured error", async () => {
+    const port = await startHangingServer()
+
+    const result = await nextjsCall.handler({ port, toolName: "get_errors", timeoutMs: 100 })
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent).toMatchObject({
+      port,
+      toolName: "get_errors",
+      timedOut: true,
+      timeoutMs: 100,
+      code: "UPSTREAM_TIMEOUT",
+      hint: expect.stringContaining("timeoutMs"),
+      details: { port, method: "tools/call", timeoutMs: 100 },
+    })
+  })
+
+  it("nextjs_call forwards client cancellation to the upstream request", async () => {
+    const port = await startHangingServer()
+    const controller = new AbortController()
+
+    const pending = nextjsCall.handler(
+      { port, toolName: "get_errors" },
+      { signal: controller.signal }
+    )
+    setTimeout(() => controller.abort(), 50)
+    const result = await pending
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent.error).toMatch(/was cancelled/)
+    expect(result.structuredContent.code).toBe("CANCELLED")
+    expect(result.structuredContent.timedOut).toBeUndefined()
+    await waitForCancelNotification()
+  })
+
+  it("nextjs_call holds the tool list check to the same timeout", async () => {
+    const port = await startHangingServer(["tools/list", "tools/call"])
+
+    const started = Date.now()
+    const result = await nextjsCall.handler({ port, toolName: "get_errors", timeoutMs: 100 })
+
+    expect(Date.now() - started).toBeLessThan(2000)
+    expect(result.structuredContent).toMatchObject({
+      code: "UPSTREAM_TIMEOUT",
+      timedOut: true,
+      details: { method: "tools/list", timeoutMs: 100 },
+    })
+  })
+
+  it("nextjs_call can be cancelled while checking the tool list", async () => {
+    const port = await startHangingServer(["tools/list", "tools/call"])
+    const controller = new AbortController()
+
+    const pending = nextjsCall.handler(
+      { port, toolName: "get_errors" },
+      { signal: controller.signal }
+    )
+    setTimeout(() => controller.abort(), 50)
+    const result = await pending
+
+    expect(result.structuredContent.code).toBe("CANCELLED")
+  })
+})
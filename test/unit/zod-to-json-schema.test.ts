@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest"
+import { z } from "zod"
+import {
+  zodSchemaToJsonSchema,
+  zodShapeToJsonSchema,
+} from "../../src/_internal/zod-to-json-schema.js"
+import * as nextjsCall from "../../src/tools/nextjs_call.js"
+import * as nextjsIndex from "../../src/tools/nextjs_index.js"
+import * as nextjsDocs from "../../src/tools/nextjs-docs.js"
+import * as browserEval from "../../src/tools/browser-eval.js"
+
+describe("zodSchemaToJsonSchema", () => {
+  it("converts primitives with their constraints", () => {
+    expect(zodSchemaToJsonSchema(z.string().min(1).max(10).regex(/^a/))).toEqual({
+      type: "string",
+      minLength: 1,
+      maxLength: 10,
+      pattern: "^a",
+    })
+    expect(zodSchemaToJsonSchema(z.string().url())).toEqual({ type: "string", format: "uri" })
+    expect(zodSchemaToJsonSchema(z.number().int().min(0).lt(65536))).toEqual({
+      type: "integer",
+      minimum: 0,
+      exclusiveMaximum: 65536,
+    })
+    expect(zodSchemaToJsonSchema(z.boolean())).toEqual({ type: "boolean" })
+    expect(zodSchemaToJsonSchema(z.literal("all"))).toEqual({ type: "string", const: "all" })
+    expect(zodSchemaToJsonSchema(z.enum(["a", "b"]))).toEqual({ type: "string", enum: ["a", "b"] })
+  })
+
+  it("keeps descriptions, including ones set on wrappers", () => {
+    expect(zodSchemaToJsonSchema(z.string().describe("inner"))).toEqual({
+      type: "string",
+      description: "inner",
+    })
+    expect(
+      zodSchemaToJsonSchema(
+        z
+          .string()
+          .transform((v) => v.length)
+          .describe("outer")
+      )
+    ).toEqual({ type: "string", description: "outer" })
+  })
+
+  it("emits required for non-optional object properties", () => {
+    const schema = z.object({
+      a: z.string(),
+      b: z.number().optional(),
+      c: z.boolean().default(false),
+    })
+    expect(zodSchemaToJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        a: { type: "string" },
+        b: { type: "number" },
+        c: { type: "boolean", default: false },
+      },
+      required: ["a"],
+    })
+  })
+
+  it("converts nested objects, arrays and records", () => {
+    const schema = z.object({
+      calls: z
+        .array(
+          z.object({
+            toolName: z.string().describe("Tool"),
+            args: z.record(z.string(), z.unknown()).optional(),
+          })
+        )
+        .min(1),
+    })
+    expect(zodSchemaToJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        calls: {
+          type: "array",
+          minItems: 1,
+          items: {
+            type: "object",
+            properties: {
+              toolName: { type: "string", description: "Tool" },
+              args: { type: "object", additionalProperties: {} },
+            },
+            required: ["toolName"],
+          },
+        },
+      },
+      required: ["calls"],
+    })
+  })
+
+  it("converts unions, nullables and intersections", () => {
+    expect(zodSchemaToJsonSchema(z.union([z.string(), z.number()]))).toEqual({
+      anyOf: [{ type: "string" }, { type: "number" }],
+    })
+    expect(zodSchemaToJsonSchema(z.string().nullable())).toEqual({ type: ["string", "null"] })
+    expect(zodSchemaToJsonSchema(z.enum(["x"]).nullable())).toEqual({
+      anyOf: [{ type: "string", enum: ["x"] }, { type: "null" }],
+    })
+    expect(
+      zodSchemaToJsonSchema(
+        z.discriminatedUnion("kind", [
+          z.object({ kind: z.literal("a") }),
+          z.object({ kind: z.literal("b"), n: z.number() }),
+        ])
+      ).anyOf
+    ).toHaveLength(2)
+    expect(
+      zodSchemaToJsonSchema(z.intersection(z.object({ a: z.string() }), z.object({ b: z.string() })))
+        .allOf
+    ).toHaveLength(2)
+  })
+
+  it("describes the input side of transforms, refinements and pipelines", () => {
+    expect(zodSchemaToJsonSchema(z.string().refine((v) => v.length > 2))).toEqual({
+      type: "string",
+    })
+    expect(zodSchemaToJsonSchema(z.string().pipe(z.coerce.number()))).toEqual({ type: "string" })
+    expect(zodSchemaToJsonSchema(z.preprocess((v) => v, z.number()))).toEqual({ type: "number" })
+  })
+
+  it("marks strict objects and catchalls", () => {
+    expect(zodSchemaToJsonSchema(z.object({}).strict()).additionalProperties).toBe(false)
+    expect(zodSchemaToJsonSchema(z.object({}).catchall(z.number())).additionalProperties).toEqual({
+      type: "number",
+    })
+  })
+})
+
+describe("tool input schemas", () => {
+  it("nextjs_call: port accepts string, number or 'all', args is an object", () => {
+    const schema = zodShapeToJsonSchema(nextjsCall.inputSchema)
+    expect(schema.type).toBe("object")
+    // Either port/toolName or the batch form (calls) is required
+    expect(schema.required).toBeUndefined()
+    expect(schema.properties!.port.anyOf).toEqual([
+      { type: "string", const: "all" },
+      { type: "string" },
+      { type: "number" },
+    ])
+    expect(schema.properties!.port.description).toContain("Port number")
+    expect(schema.properties!.args.type).toBe("object")
+    expect(schema.properties!.args.additionalProperties).toEqual({})
+    expect(schema.properties!.calls.items).toMatchObject({ required: ["port", "toolName"] })
+  })
+
+  it("nextjs_index: port is optional", () => {
+    const schema = zodShapeToJsonSchema(nextjsIndex.inputSchema)
+    expect(schema.required).toBeUndefined()
+    expect(schema.properties!.port.anyOf).toEqual([{ type: "string" }, { type: "number" }])
+  })
+
+  it("gateways: every argument is an optional string", () => {
+    for (const shape of [nextjsDocs.inputSchema, browserEval.inputSchema]) {
+      const schema = zodShapeToJsonSchema(shape)
+      expect(schema.required).toBeUndefined()
+      for (const property of Object.values(schema.properties!)) {
+        expect(property.type).toBe("string")
+        expect(property.description).toBeTruthy()
+      }
+    }
+  })
+})